@@ -3,8 +3,100 @@ import { HttpTool } from "./HttpTool";
 import { KVCache } from "../utils/kv";
 import { DB } from "../utils/db";
 import { SchemaDetailsTool } from "./schemaDetailTool";
-import { getAI } from "../utils/ai";
-import { createErrorResponse } from "../utils/stream";
+import { createGraphQLQueryTool } from "./GraphQLQueryTool";
+import { createSchemaSearchTool } from "./SchemaSearchTool";
+import { formatRootFieldsSummary } from "../utils/schema-search";
+import { remoteSchemaCacheKeys } from "../utils/schema-data";
+import { getAI, getEmbeddingModel } from "../utils/ai";
+import {
+  ChatStreamWriter,
+  createErrorResponse,
+  createStreamId,
+  readErrorMessage,
+  type ChatStreamOptions,
+  type ChatStreamWriterFactory,
+} from "../utils/stream";
+import {
+  AnthropicStreamWriter,
+  fromAnthropicRequest,
+  toAnthropicErrorResponse,
+  toAnthropicMessage,
+  type AnthropicRequestBody,
+} from "../utils/anthropic";
+import {
+  ResponseStore,
+  ResponsesStreamWriter,
+  createResponseId,
+  fromResponsesRequest,
+  getResponseInputMessages,
+  toResponsesErrorResponse,
+  type ResponseObject,
+  type ResponsesRequestBody,
+} from "../utils/responses";
+import { ConversationStore, getConversationOwnerId } from "../utils/conversation";
+import {
+  BatchStore,
+  parseBatchConcurrency,
+  parseBatchInput,
+  toBatchResultLine,
+  type BatchInput,
+  type BatchItem,
+  type StoredBatch,
+} from "../utils/batches";
+import { BILLING_PROJECT_SLUG, getApiKeyManager, parseBillingCost } from "../utils/apikey";
+import type { ApiUsage } from "../storage/ApiUsage";
+import {
+  WebSocketStreamWriter,
+  parseClientMessage,
+  sendMessage,
+  type ClientMessage,
+  type SocketSession,
+} from "../utils/websocket";
+import { getMessageText, toCoreMessages, validateMessageContent } from "../utils/messages";
+import type { CoreMessage } from "ai";
+import { buildClientTools, formatToolCall, type ClientToolsConfig } from "./ClientTools";
+import { addUsage, emptyUsage, mergeUsage, sumStepUsage, type ChatUsage } from "../utils/usage";
+import {
+  getRepairPrompt,
+  getResponseFormatInstructions,
+  parseResponseFormat,
+  validateResponseFormat,
+  type ResponseFormat,
+  type ResponseFormatResult,
+} from "../utils/response-format";
+import type { JSONSchema } from "../utils/json-schema";
+import {
+  ContextBuilder,
+  SUMMARY_MAX_TOKENS,
+  deleteConversationSummaries,
+  getSummaryScope,
+  type ContextReport,
+} from "../utils/context";
+import { ToolEventTracker } from "../utils/tool-events";
+import { RunStore, MAX_RUN_LIST_LIMIT, DEFAULT_RUN_LIST_LIMIT, type RunStatus } from "../utils/runs";
+import { ResumableStream, deleteExpiredStreams, getStreamMeta, replayStoredStream } from "../utils/resumable-stream";
+import {
+  ConversationRouteStore,
+  ProjectRouter,
+  findHintedProjects,
+  getConversationRouteKey,
+  type RoutableProject,
+  type RouteCandidate,
+  type RouteResult,
+} from "../utils/project-router";
+import {
+  DEFAULT_FALLBACK_MODELS,
+  getContextWindow,
+  getFallbackModels,
+  getSamplingParams,
+  isRetryableModelError,
+  parseModelList,
+  resolveModel,
+  SONAR_MODEL,
+  SUMMARY_MODEL,
+  type ProjectModelConfig,
+  type SamplingParams,
+} from "../utils/models";
 import { z } from "zod";
 
 // Environment interface for Cloudflare Workers
@@ -12,17 +104,27 @@ interface Env {
   OPENROUTER_API_KEY: string;
   OPENAI_API_KEY: string;
   MODEL_NAME?: string;
+  FALLBACK_MODELS?: string;
   DATABASE_URL?: string;
   CHAT_CACHE?: KVNamespace;
+  POLAR_ACCESS_TOKEN: string;
+  APIUSAGE: DurableObjectNamespace<ApiUsage>;
 }
 
+// Message content part (OpenAI compatible)
+export type MessageContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string; detail?: string } };
+
 // Message type definition (OpenAI compatible)
 export interface Message {
   role: "system" | "user" | "assistant" | "function" | "tool";
-  content: string;
+  content: string | MessageContentPart[] | null;
+  reasoning_content?: string;
   name?: string;
   tool_calls?: any[];
   tool_call_id?: string;
+  function_call?: { name: string; arguments: string };
 }
 
 // Chat session data stored in Durable Object
@@ -46,6 +148,8 @@ interface RemoteSchema {
     rawSchema: any;
   };
   createdAt?: string;
+  // Owning project, set when the agent combines schemas of several projects
+  project?: { id: string; name: string };
 }
 
 // Request body interface for OpenAI-compatible API
@@ -56,28 +160,94 @@ export interface ChatRequestBody {
   model?: string;
   temperature?: number;
   max_tokens?: number;
+  top_p?: number;
+  stop?: string | string[];
   projectId?: string;
+  project?: string | string[];
+  conversation_id?: string;
+  tools?: any[];
+  tool_choice?: any;
+  parallel_tool_calls?: boolean;
+  stream_options?: { include_usage?: boolean };
+  include_reasoning?: boolean;
+  with_tool_event?: boolean;
+  response_format?: { type: string; json_schema?: { name?: string; schema?: JSONSchema; strict?: boolean } };
   [key: string]: any;
 }
 
+// Wire format of a chat completion endpoint other than OpenAI chat completions
+interface ChatCompletionFormat {
+  // Converts the request body into a chat completion request, throwing an Error when it is invalid
+  parseBody?: (body: any) => ChatRequestBody | Promise<ChatRequestBody>;
+  createWriter?: ChatStreamWriterFactory;
+  // Owner of conversation threads, for requests made on behalf of a client that carry no API key of their own
+  ownerId?: string | null;
+  // Cancels the agent run when aborted
+  signal?: AbortSignal;
+}
+
+// Result of preparing an agent for a chat request
+interface AgentContext {
+  agent: Agent;
+  model: string;
+  sampling: SamplingParams;
+  messages: CoreMessage[];
+  conversationId?: string;
+  clientTools?: ClientToolsConfig;
+  includeReasoning?: boolean;
+  responseFormat?: ResponseFormat;
+  contextReport?: ContextReport;
+  // Agents for the fallback models, tried in order when the model fails before answering
+  fallbacks?: { model: string; agent: Agent }[];
+  onComplete?: (message: Message) => Promise<void>;
+}
+
+// Model settings applied when creating an agent
+interface AgentModelSettings {
+  modelId: string;
+  sampling: SamplingParams;
+  parallelToolCalls?: boolean;
+  responseFormat?: ResponseFormat;
+  fallbackModels?: string[];
+}
+
 // Constants
 const CACHE_TTL = 60; // Cache TTL in seconds (1 hour)
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+// Alarm invocations are limited in duration, so batch work continues in a new alarm after this long
+const BATCH_TIME_BUDGET = 8 * 60 * 1000;
+// Batch items and WebSocket messages are handled in-process; these URLs are never fetched
+const BATCH_ITEM_URL = "https://batch.internal/v1/chat/completions";
+const SOCKET_MESSAGE_URL = "https://socket.internal/v1/chat/completions";
+// Expired streams, run records and stored responses are deleted by the alarm at most this often
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
 
 /**
  * Chat Durable Object
  * Handles persistent chat sessions across worker instances
  */
 export class Chat {
+  private state: DurableObjectState;
   private storage: DurableObjectStorage;
   private env: Env;
   private session: ChatSession | null = null;
   private agent: Agent | null = null;
   private projectId: string | null = null;
-  private request: Request | null = null;
+  // Streams still being produced by this instance, keyed by stream ID
+  private streams = new Map<string, ResumableStream>();
+  private projectRouter: ProjectRouter | null = null;
+  private conversationRoutes: ConversationRouteStore | null = null;
+  // Agent runs of connected WebSockets; a socket runs one user_message at a time
+  private socketRuns = new Map<WebSocket, { id: string; controller: AbortController }>();
+  private cleanedAt = 0;
+  private cleanupScheduled = false;
 
   constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
     this.storage = state.storage;
     this.env = env;
+    // Keepalive pings are answered without waking a hibernated instance
+    state.setWebSocketAutoResponse(new WebSocketRequestResponsePair('{"type":"ping"}', '{"type":"pong"}'));
     this.initializeUtils();
   }
 
@@ -99,13 +269,73 @@ export class Chat {
    */
   async fetch(request: Request): Promise<Response> {
 
-    this.request = request;
+    if (request.headers.get("Upgrade")?.toLowerCase() === "websocket") {
+      if (!/\/v1\/chat\/ws\/?$/.test(new URL(request.url).pathname)) {
+        return createErrorResponse(false, {
+          message: "WebSocket connections are only accepted on /v1/chat/ws",
+          type: "invalid_request_error",
+          code: "invalid_parameters",
+          status: 400
+        });
+      }
+      return this.handleWebSocketUpgrade(request);
+    }
+
+    if (/\/v1\/runs\/?$/.test(new URL(request.url).pathname) && request.method === "GET") {
+      return this.handleRunList(request);
+    }
+
+    const conversationMatch = new URL(request.url).pathname.match(/\/v1\/conversations(?:\/([^/]+))?\/?$/);
+    if (conversationMatch) {
+      return this.handleConversationRequest(request, conversationMatch[1]);
+    }
+
+    const streamMatch = new URL(request.url).pathname.match(/\/v1\/chat\/completions\/([^/]+)\/?$/);
+    if (streamMatch && request.method === "GET") {
+      return this.handleStreamResume(request, streamMatch[1]);
+    }
+
+    const batchMatch = new URL(request.url).pathname.match(/\/v1\/batches(?:\/([^/]+)(?:\/(cancel|results))?)?\/?$/);
+    if (batchMatch) {
+      return this.handleBatchRequest(request, batchMatch[1], batchMatch[2]);
+    }
+
+    const responseMatch = new URL(request.url).pathname.match(/\/v1\/responses\/([^/]+)\/?$/);
+    if (responseMatch && request.method === "GET") {
+      return this.handleResponseRetrieve(request, responseMatch[1]);
+    }
 
     if (request.method !== "POST") {
       console.log("Method not allowed:", request.method);
       return new Response("Method not allowed", { status: 405 });
     }
 
+    // Anthropic Messages API requests run through the same handler and are converted on the way out
+    if (/\/v1\/messages\/?$/.test(new URL(request.url).pathname)) {
+      const response = await this.handleChatCompletion(request, {
+        parseBody: (body) => fromAnthropicRequest(body as AnthropicRequestBody),
+        createWriter: (sink, id, model, options) => new AnthropicStreamWriter(sink, id, model, options),
+      });
+      if (!response.ok) {
+        return toAnthropicErrorResponse(response);
+      }
+      if (response.headers.get("Content-Type")?.includes("application/json")) {
+        return new Response(JSON.stringify(toAnthropicMessage(await response.json())), response);
+      }
+      return response;
+    }
+
+    if (/\/v1\/responses\/?$/.test(new URL(request.url).pathname)) {
+      return this.handleResponsesRequest(request);
+    }
+
+    return this.handleChatCompletion(request);
+  }
+
+  /**
+   * Handle a chat completion request, in the OpenAI format unless another wire format is given
+   */
+  private async handleChatCompletion(request: Request, format: ChatCompletionFormat = {}): Promise<Response> {
     try {
       const projectId = request.headers.get("X-Project-Id");
       const isGlobalChat = request.headers.get("X-Global-Chat") === "true";
@@ -115,11 +345,104 @@ export class Chat {
         console.log("Using project ID from header:", this.projectId);
       }
 
-      const body = (await request.json()) as ChatRequestBody;
+      let body: ChatRequestBody;
+      try {
+        const requestBody = await request.json();
+        body = format.parseBody ? await format.parseBody(requestBody) : requestBody as ChatRequestBody;
+      } catch (error) {
+        return createErrorResponse(false, {
+          message: (error as Error).message,
+          type: "invalid_request_error",
+          code: "invalid_parameters",
+          status: 400
+        });
+      }
+
+      try {
+        validateMessageContent(body.messages);
+      } catch (error) {
+        return createErrorResponse(body.stream === true, {
+          message: (error as Error).message,
+          type: "invalid_request_error",
+          code: "invalid_parameters",
+          status: 400
+        });
+      }
+
+      // Client-defined function tools are merged with the server tools
+      let clientTools: ClientToolsConfig;
+      try {
+        clientTools = buildClientTools(body.tools, body.tool_choice);
+      } catch (error) {
+        return createErrorResponse(body.stream === true, {
+          message: (error as Error).message,
+          type: "invalid_request_error",
+          code: "invalid_tools",
+          status: 400
+        });
+      }
+
+      let sampling: SamplingParams;
+      try {
+        sampling = getSamplingParams(body);
+      } catch (error) {
+        return createErrorResponse(body.stream === true, {
+          message: (error as Error).message,
+          type: "invalid_request_error",
+          code: "invalid_parameters",
+          status: 400
+        });
+      }
+
+      // Global chat has no project yet, so only the registry-wide allowlist applies
+      let modelId: string;
+      let fallbackModels: string[];
+      try {
+        const modelConfig = isGlobalChat || !this.projectId ? null : await this.getProjectModelConfig(this.projectId);
+        modelId = resolveModel(body.model, modelConfig);
+        fallbackModels = getFallbackModels(modelId, modelConfig, this.getGlobalFallbackModels());
+      } catch (error) {
+        return createErrorResponse(body.stream === true, {
+          message: (error as Error).message,
+          type: "invalid_request_error",
+          code: "model_not_allowed",
+          status: 400
+        });
+      }
+
+      let responseFormat: ResponseFormat | undefined;
+      try {
+        responseFormat = parseResponseFormat(body.response_format);
+      } catch (error) {
+        return createErrorResponse(body.stream === true, {
+          message: (error as Error).message,
+          type: "invalid_request_error",
+          code: "invalid_response_format",
+          status: 400
+        });
+      }
+
+      const modelSettings: AgentModelSettings = {
+        modelId,
+        sampling,
+        parallelToolCalls: body.parallel_tool_calls,
+        responseFormat,
+        fallbackModels,
+      };
+      // Reasoning and progress updates are returned separately from the answer unless disabled
+      const includeReasoning = body.include_reasoning !== false;
+      const streamOptions: ChatStreamOptions = {
+        includeUsage: body.stream_options?.include_usage === true,
+        includeReasoning,
+        includeToolEvents: hasToolEventFlag(request, body),
+      };
+
+      // Resolved from this request and passed on, since the Durable Object serves other requests while this one awaits
+      const ownerId = format.ownerId !== undefined ? format.ownerId : await getConversationOwnerId(request);
 
       // Handle global chat logic within Durable Object
       if (isGlobalChat) {
-        return await this.handleGlobalChatInDO(body);
+        return await this.handleGlobalChatInDO(body, clientTools, modelSettings, streamOptions, ownerId);
       }
 
       // Regular project chat logic
@@ -138,17 +461,45 @@ export class Chat {
           status: 400
         });
       }
-      const getAgent = async (controller?: ReadableStreamDefaultController) => {
-        const encoder = new TextEncoder();
-        const streamId = "chatcmpl-" + Date.now().toString(36);
+
+      // Continue a server-side conversation thread if requested
+      let conversationStore: ConversationStore | null = null;
+      let newMessages: Message[] = [];
+      const conversationId = body.conversation_id;
+      if (conversationId !== undefined) {
+        if (typeof conversationId !== "string" || !CONVERSATION_ID_PATTERN.test(conversationId)) {
+          return createErrorResponse(body.stream === true, {
+            message: "conversation_id must be 1-128 characters of letters, digits, '-' or '_'",
+            type: "invalid_request_error",
+            code: "invalid_conversation_id",
+            status: 400
+          });
+        }
+        if (!ownerId) {
+          return createErrorResponse(body.stream === true, {
+            message: "Authentication error: conversation_id requires an API Key",
+            type: "authentication_error",
+            code: "invalid_parameters",
+            status: 401
+          });
+        }
+        conversationStore = new ConversationStore(this.storage, ownerId);
+        const conversation = await conversationStore.get(conversationId);
+        newMessages = messages.filter(msg => msg.role !== "system");
+        messages = [
+          ...messages.filter(msg => msg.role === "system"),
+          ...(conversation?.messages || []),
+          ...newMessages,
+        ];
+      }
+
+      const getAgent = async (writer?: ChatStreamWriter): Promise<AgentContext> => {
         // Extract system messages from user input
         const userSystemMessages = messages.filter(msg => msg.role === "system");
-        const userSystemPrompt = userSystemMessages.length > 0 ? userSystemMessages[0].content : "";
-        if (controller) {
-          controller.enqueue(encoder.encode(formatStreamingData("<thinking>Fetching remote schemas...</thinking>\n", streamId)));
-        }
+        const userSystemPrompt = userSystemMessages.length > 0 ? getMessageText(userSystemMessages[0]) : "";
+        writer?.reasoning("Fetching remote schemas...\n");
         const [remoteSchemas, project] = await Promise.all([this.getRemoteSchemas(), this.getProjectById({ projectId: this.projectId! })]);
-        const enhancedSystemPrompt = this.buildSystemPrompt(remoteSchemas, userSystemPrompt, project?.prompt || '');
+        const enhancedSystemPrompt = this.buildSystemPrompt(remoteSchemas, userSystemPrompt, project?.prompt || '', this.projectId);
 
         // Update session with enhanced system prompt
         if (enhancedSystemPrompt &&
@@ -161,30 +512,17 @@ export class Chat {
           await this.saveSession();
         }
 
-        // Rebuild messages array with enhanced system prompt
-        if (userSystemMessages.length > 0) {
-          const systemMessageIndex = messages.findIndex(msg => msg.role === "system");
-          if (systemMessageIndex !== -1) {
-            messages[systemMessageIndex].content = enhancedSystemPrompt;
-          }
-        } else {
-          messages = [
-            { role: "system", content: enhancedSystemPrompt },
-            ...messages,
-          ];
-        }
-
-        const agent = await this.getAgent(enhancedSystemPrompt);
+        const agent = await this.getAgent(enhancedSystemPrompt, modelSettings, remoteSchemas, this.projectId);
 
-        // Prepare prompt from messages
-        const prompt = messages
-          .map(msg => {
-            const prefix = msg.role === "user" ? "User: " :
-              msg.role === "assistant" ? "Assistant: " :
-                msg.role === "system" ? "System: " : "";
-            return `${prefix}${msg.content}`;
-          })
-          .join("\n\n");
+        // The first system message is merged into the agent instructions, the rest are kept in order
+        const context = await this.buildModelContext(
+          messages.filter(msg => msg !== userSystemMessages[0]),
+          enhancedSystemPrompt,
+          modelSettings,
+          writer,
+          conversationStore && ownerId ? getSummaryScope(ownerId, conversationId!) : undefined
+        );
+        const conversationMessages = toCoreMessages(context.messages);
 
         // Update last used timestamp
         this.session = {
@@ -194,15 +532,35 @@ export class Chat {
         await this.saveSession();
         return {
           agent,
-          prompt
+          model: modelId,
+          sampling,
+          messages: conversationMessages,
+          conversationId,
+          clientTools,
+          includeReasoning,
+          responseFormat,
+          contextReport: context.report,
+          fallbacks: this.getFallbackAgents(enhancedSystemPrompt, modelSettings, remoteSchemas, this.projectId),
+          onComplete: conversationStore
+            ? async (message: Message) => {
+              await conversationStore.append(conversationId!, [...newMessages, message]);
+            }
+            : undefined,
         }
       }
       // Handle streaming or standard response
       if (body.stream === true) {
-        return this.handleStreamingResponseV2(getAgent);
+        return this.handleStreamingResponseV2(getAgent, {
+          ...streamOptions,
+          model: modelId,
+          ownerId,
+          projectId,
+          conversationId,
+          createWriter: format.createWriter,
+          signal: format.signal,
+        });
       } else {
-        const { agent, prompt } = await getAgent();
-        return this.handleStandardResponse(agent, prompt);
+        return this.handleStandardResponse(await getAgent());
       }
     } catch (error) {
       console.error("Error generating chat response:", error);
@@ -215,16 +573,610 @@ export class Chat {
     }
   }
 
+  /**
+   * Handle an OpenAI Responses API request
+   * The agent run is always streamed; non-streaming requests wait for it and receive the final response object
+   */
+  private async handleResponsesRequest(request: Request): Promise<Response> {
+    const ownerId = await getConversationOwnerId(request);
+    const store = new ResponseStore(this.storage);
+    const responseId = createResponseId(request.headers.get("X-Project-Id") || this.projectId || "");
+    let requestBody: ResponsesRequestBody = {};
+    let input: Message[] = [];
+    let completed = null as ResponseObject | null;
+    let saved: Promise<void> = Promise.resolve();
+
+    const response = await this.handleChatCompletion(request, {
+      parseBody: async (body: ResponsesRequestBody) => {
+        requestBody = body;
+        input = getResponseInputMessages(body.input);
+        const history = body.previous_response_id ? await store.getHistory(body.previous_response_id, ownerId) : [];
+        if (!history) {
+          throw new Error(`Previous response with id '${body.previous_response_id}' not found.`);
+        }
+        return fromResponsesRequest(body, [...history, ...input]);
+      },
+      createWriter: (sink, _streamId, model, options) =>
+        new ResponsesStreamWriter(sink, responseId, model, options, requestBody, (result) => {
+          completed = result;
+          if (requestBody.store !== false) {
+            saved = store.put(ownerId, result, input).catch((error) => {
+              console.error("Failed to store response:", error);
+            });
+          }
+        }),
+    });
+    if (!response.ok) {
+      return toResponsesErrorResponse(response);
+    }
+    if (requestBody.stream === true) {
+      return response;
+    }
+
+    // The stream ends once the run is done, which hands the final response object to the writer
+    await response.text();
+    await saved;
+    if (!completed) {
+      return createErrorResponse(false, {
+        message: "Failed to generate response",
+        type: "server_error",
+        code: "processing_error",
+        status: 500
+      });
+    }
+    return new Response(JSON.stringify(completed), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  /**
+   * Return a stored Responses API response
+   */
+  private async handleResponseRetrieve(request: Request, responseId: string): Promise<Response> {
+    const ownerId = await getConversationOwnerId(request);
+    const stored = await new ResponseStore(this.storage).get(responseId, ownerId);
+    if (!stored) {
+      return createErrorResponse(false, {
+        message: `Response with id '${responseId}' not found.`,
+        type: "invalid_request_error",
+        code: "response_not_found",
+        status: 404
+      });
+    }
+    return new Response(JSON.stringify(stored.response), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  /**
+   * Handle conversation thread routes: list, fetch and delete
+   */
+  private async handleConversationRequest(request: Request, conversationId?: string): Promise<Response> {
+    const ownerId = await getConversationOwnerId(request);
+    if (!ownerId) {
+      return createErrorResponse(false, {
+        message: "Authentication error: Missing API Key",
+        type: "authentication_error",
+        code: "invalid_parameters",
+        status: 401
+      });
+    }
+    const store = new ConversationStore(this.storage, ownerId);
+
+    if (!conversationId) {
+      if (request.method !== "GET") {
+        return new Response("Method not allowed", { status: 405 });
+      }
+      const conversations = await store.list();
+      return Response.json({ object: "list", data: conversations });
+    }
+
+    const notFound = () => createErrorResponse(false, {
+      message: `Conversation ${conversationId} not found`,
+      type: "invalid_request_error",
+      code: "conversation_not_found",
+      status: 404
+    });
+
+    if (request.method === "GET") {
+      const conversation = await store.get(conversationId);
+      return conversation ? Response.json(conversation) : notFound();
+    }
+    if (request.method === "DELETE") {
+      const deleted = await store.delete(conversationId);
+      if (deleted) {
+        await deleteConversationSummaries(this.storage, getSummaryScope(ownerId, conversationId));
+      }
+      return deleted ? Response.json({ id: conversationId, deleted: true }) : notFound();
+    }
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  /**
+   * List the caller's agent runs for chargeback reports, oldest first
+   * `after` is the end time (ms) of the last run already received
+   */
+  private async handleRunList(request: Request): Promise<Response> {
+    const ownerId = await getConversationOwnerId(request);
+    if (!ownerId) {
+      return createErrorResponse(false, {
+        message: "Authentication error: Missing API Key",
+        type: "authentication_error",
+        code: "invalid_parameters",
+        status: 401
+      });
+    }
+    const params = new URL(request.url).searchParams;
+    const after = Number(params.get("after") ?? 0);
+    const limit = Number(params.get("limit") ?? DEFAULT_RUN_LIST_LIMIT);
+    if (!Number.isInteger(after) || after < 0 || !Number.isInteger(limit) || limit < 1 || limit > MAX_RUN_LIST_LIMIT) {
+      return createErrorResponse(false, {
+        message: `after must be a non-negative integer and limit an integer between 1 and ${MAX_RUN_LIST_LIMIT}`,
+        type: "invalid_request_error",
+        code: "invalid_parameters",
+        status: 400
+      });
+    }
+    const runs = await new RunStore(this.storage).list(ownerId, after, limit);
+    return Response.json({ object: "list", data: runs, has_more: runs.length === limit });
+  }
+
+  /**
+   * Handle batch routes: create, list, fetch, cancel, delete and download results
+   */
+  private async handleBatchRequest(request: Request, batchId?: string, action?: string): Promise<Response> {
+    const ownerId = await getConversationOwnerId(request);
+    if (!ownerId) {
+      return createErrorResponse(false, {
+        message: "Authentication error: Missing API Key",
+        type: "authentication_error",
+        code: "invalid_parameters",
+        status: 401
+      });
+    }
+    const store = new BatchStore(this.storage);
+
+    if (!batchId) {
+      if (request.method === "GET") {
+        return Response.json({ object: "list", data: await store.list(ownerId) });
+      }
+      if (request.method === "POST") {
+        return this.createBatch(request, store, ownerId);
+      }
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    const notFound = () => createErrorResponse(false, {
+      message: `Batch ${batchId} not found`,
+      type: "invalid_request_error",
+      code: "batch_not_found",
+      status: 404
+    });
+
+    if (action === "cancel") {
+      if (request.method !== "POST") {
+        return new Response("Method not allowed", { status: 405 });
+      }
+      const batch = await store.cancel(ownerId, batchId);
+      return batch ? Response.json(batch) : notFound();
+    }
+    if (action === "results") {
+      if (request.method !== "GET") {
+        return new Response("Method not allowed", { status: 405 });
+      }
+      if (!(await store.get(ownerId, batchId))) {
+        return notFound();
+      }
+      return this.streamBatchResults(store, batchId);
+    }
+    if (request.method === "GET") {
+      const stored = await store.get(ownerId, batchId);
+      return stored ? Response.json(stored.batch) : notFound();
+    }
+    if (request.method === "DELETE") {
+      const deleted = await store.delete(ownerId, batchId);
+      return deleted ? Response.json({ id: batchId, object: "batch.deleted", deleted: true }) : notFound();
+    }
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  /**
+   * Queue a batch from a JSONL body; items run in the Durable Object alarm
+   * The worker resolves billing for the API key and passes it in headers, so each item can be charged when it runs
+   */
+  private async createBatch(request: Request, store: BatchStore, ownerId: string): Promise<Response> {
+    const projectId = request.headers.get("X-Project-Id");
+    const orgId = request.headers.get("X-Billing-Org-Id");
+    const cost = parseBillingCost(request.headers.get("X-Billing-Cost"));
+    if (!projectId || !orgId || cost === null) {
+      return createErrorResponse(false, {
+        message: "Authentication error: Unauthorized API Key",
+        type: "authentication_error",
+        code: "invalid_parameters",
+        status: 401
+      });
+    }
+
+    let inputs: BatchInput[];
+    let concurrency: number;
+    try {
+      inputs = parseBatchInput(await request.text());
+      concurrency = parseBatchConcurrency(new URL(request.url).searchParams.get("concurrency"));
+    } catch (error) {
+      return createErrorResponse(false, {
+        message: (error as Error).message,
+        type: "invalid_request_error",
+        code: "invalid_batch",
+        status: 400
+      });
+    }
+
+    const batch = await store.create(ownerId, projectId, { orgId, cost }, inputs, concurrency);
+    await this.storage.setAlarm(Date.now());
+    return Response.json(batch);
+  }
+
+  /**
+   * Stream the results of a batch's finished items as JSONL, in input order
+   */
+  private streamBatchResults(store: BatchStore, batchId: string): Response {
+    const encoder = new TextEncoder();
+    const items = store.items(batchId);
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        while (true) {
+          const next = await items.next();
+          if (next.done) {
+            controller.close();
+            return;
+          }
+          if (next.value.status !== "pending") {
+            controller.enqueue(encoder.encode(`${toBatchResultLine(batchId, next.value)}\n`));
+            return;
+          }
+        }
+      },
+    });
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/jsonl",
+        "Content-Disposition": `attachment; filename="${batchId}_results.jsonl"`,
+      },
+    });
+  }
+
+  /**
+   * Durable Object alarm: run the pending items of active batches
+   * Work that does not fit into one invocation continues in the next alarm
+   */
+  async alarm(): Promise<void> {
+    const store = new BatchStore(this.storage);
+    const deadline = Date.now() + BATCH_TIME_BUDGET;
+    for (const stored of await store.listActive()) {
+      if (Date.now() >= deadline) {
+        break;
+      }
+      await this.processBatch(store, stored, deadline);
+    }
+
+    // Expired data is deleted at most once per interval; the alarm comes back while anything may still expire
+    let cleanupAt: number | null = this.cleanedAt + CLEANUP_INTERVAL;
+    if (Date.now() >= cleanupAt) {
+      this.cleanedAt = Date.now();
+      cleanupAt = (await this.deleteExpiredData()) ? this.cleanedAt + CLEANUP_INTERVAL : null;
+    }
+
+    if ((await store.listActive()).length > 0) {
+      await this.storage.setAlarm(Date.now());
+    } else if (cleanupAt !== null) {
+      await this.storage.setAlarm(cleanupAt);
+    } else {
+      this.cleanupScheduled = false;
+    }
+  }
+
+  /**
+   * Make sure the alarm runs to delete expired data, without replacing an alarm that is already set
+   */
+  private async scheduleCleanup(): Promise<void> {
+    if (this.cleanupScheduled) {
+      return;
+    }
+    this.cleanupScheduled = true;
+    if ((await this.storage.getAlarm()) === null) {
+      await this.storage.setAlarm(Date.now() + CLEANUP_INTERVAL);
+    }
+  }
+
+  /**
+   * Delete expired buffered streams, run records and stored responses, a limited number per call
+   * Returns whether any of them remain
+   */
+  private async deleteExpiredData(): Promise<boolean> {
+    const streamsLeft = await deleteExpiredStreams(this.storage);
+    const runsLeft = await new RunStore(this.storage).deleteExpired();
+    const responsesLeft = await new ResponseStore(this.storage).deleteExpired();
+    return streamsLeft || runsLeft || responsesLeft;
+  }
+
+  /**
+   * Run a batch's pending items with at most `concurrency` of them at a time
+   */
+  private async processBatch(store: BatchStore, stored: StoredBatch, deadline: number): Promise<void> {
+    const { batch, ownerId } = stored;
+    // The item iterator is shared, so each item is taken by exactly one worker
+    const items = store.items(batch.id);
+    const work = async () => {
+      while (Date.now() < deadline) {
+        const next = await items.next();
+        if (next.done) {
+          return;
+        }
+        if (next.value.status !== "pending") {
+          continue;
+        }
+        // Cancelled or deleted batches stop taking new items
+        const current = await store.get(ownerId, batch.id);
+        if (current?.batch.status !== "in_progress") {
+          return;
+        }
+        const finished = await this.runBatchItem(store, current, next.value);
+        try {
+          await store.finishItem(ownerId, batch.id, finished);
+        } catch (error) {
+          console.error("Failed to store batch result:", error);
+          await store.finishItem(ownerId, batch.id, {
+            ...finished,
+            status: "failed",
+            response: undefined,
+            error: { code: "processing_error", message: "Failed to store the result" },
+          });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: batch.concurrency }, work));
+  }
+
+  /**
+   * Run one batch item as a non-streaming chat completion, charging the API key for it first
+   */
+  private async runBatchItem(store: BatchStore, stored: StoredBatch, item: BatchItem): Promise<BatchItem> {
+    try {
+      if (!item.billed) {
+        const result = await this.chargeApiKey(stored.billing);
+        if (!result.success) {
+          return { ...item, status: "failed", error: { code: "rate_limit_exceeded", message: result.message } };
+        }
+        item = { ...item, billed: true };
+        await store.putItem(stored.batch.id, item);
+      }
+      const request = new Request(BATCH_ITEM_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Project-Id": stored.projectId },
+        body: JSON.stringify(item.body),
+      });
+      // Items carry no API key, so conversations and streams belong to the batch owner
+      const response = await this.handleChatCompletion(request, { ownerId: stored.ownerId });
+      const body = await response.json().catch(() => null);
+      return {
+        ...item,
+        status: response.ok ? "completed" : "failed",
+        response: { status_code: response.status, body },
+      };
+    } catch (error) {
+      console.error("Batch item failed:", error);
+      return { ...item, status: "failed", error: { code: "processing_error", message: (error as Error).message } };
+    }
+  }
+
+  /**
+   * Charge the organization of an API key for one request, as apiKeyMiddleware does for HTTP requests
+   */
+  private async chargeApiKey(billing: { orgId: string; cost: number }): Promise<{ success: boolean; message: string }> {
+    return getApiKeyManager(this.env).verifyKey({
+      resourceId: billing.orgId,
+      cost: billing.cost,
+      projectSlug: BILLING_PROJECT_SLUG,
+    });
+  }
+
+  /**
+   * Accept a WebSocket connection for interactive chat using the hibernation API
+   * The worker has authenticated the API key and passes its billing in headers; each user_message is charged when it runs
+   */
+  private async handleWebSocketUpgrade(request: Request): Promise<Response> {
+    const projectId = request.headers.get("X-Project-Id");
+    const orgId = request.headers.get("X-Billing-Org-Id");
+    const cost = parseBillingCost(request.headers.get("X-Billing-Cost"));
+    if (!projectId || !orgId || cost === null) {
+      return createErrorResponse(false, {
+        message: "Authentication error: Unauthorized API Key",
+        type: "authentication_error",
+        code: "invalid_parameters",
+        status: 401
+      });
+    }
+    const session: SocketSession = {
+      projectId,
+      ownerId: await getConversationOwnerId(request),
+      billing: { orgId, cost },
+    };
+    const [client, server] = Object.values(new WebSocketPair());
+    this.state.acceptWebSocket(server);
+    server.serializeAttachment(session);
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * Handle a message on a hibernatable WebSocket: start a run for user_message, abort it for cancel
+   */
+  async webSocketMessage(socket: WebSocket, data: string | ArrayBuffer): Promise<void> {
+    let message: ClientMessage;
+    try {
+      message = parseClientMessage(data);
+    } catch (error) {
+      sendMessage(socket, {
+        type: "error",
+        error: { message: (error as Error).message, type: "invalid_request_error", code: "invalid_message" },
+      });
+      return;
+    }
+
+    const active = this.socketRuns.get(socket);
+    if (message.type === "cancel") {
+      if (active && (!message.id || message.id === active.id)) {
+        active.controller.abort();
+      }
+      return;
+    }
+    if (active) {
+      sendMessage(socket, {
+        type: "error",
+        id: message.id,
+        error: {
+          message: `Run ${active.id} is still in progress, send cancel first`,
+          type: "invalid_request_error",
+          code: "run_in_progress",
+        },
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    this.socketRuns.set(socket, { id: message.id, controller });
+    try {
+      await this.runSocketMessage(socket, message.id, message.body, controller.signal);
+    } catch (error) {
+      console.error("Error in WebSocket run:", error);
+      sendMessage(socket, {
+        type: "error",
+        id: message.id,
+        error: { message: "Failed to generate chat response", type: "server_error", code: "processing_error" },
+      });
+    } finally {
+      this.socketRuns.delete(socket);
+    }
+  }
+
+  /**
+   * Run a user_message through the project chat and send the output over the socket
+   */
+  private async runSocketMessage(socket: WebSocket, id: string, body: ChatRequestBody, signal: AbortSignal): Promise<void> {
+    const session = socket.deserializeAttachment() as SocketSession;
+    const charge = await this.chargeApiKey(session.billing);
+    if (!charge.success) {
+      sendMessage(socket, {
+        type: "error",
+        id,
+        error: { message: charge.message, type: "rate_limit_error", code: "rate_limit_exceeded" },
+      });
+      return;
+    }
+
+    let writer = null as WebSocketStreamWriter | null;
+    const request = new Request(SOCKET_MESSAGE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Project-Id": session.projectId },
+      body: JSON.stringify({ ...body, stream: true }),
+    });
+    const response = await this.handleChatCompletion(request, {
+      ownerId: session.ownerId,
+      signal,
+      createWriter: (sink, _streamId, model, options) => {
+        writer = new WebSocketStreamWriter(socket, sink, id, model, options);
+        return writer;
+      },
+    });
+    if (!response.ok) {
+      sendMessage(socket, {
+        type: "error",
+        id,
+        error: {
+          message: await readErrorMessage(response),
+          type: response.status >= 500 ? "server_error" : "invalid_request_error",
+          code: "invalid_parameters",
+        },
+      });
+      return;
+    }
+
+    // The stream closes once the run ends, including runs that were cancelled
+    await response.text();
+    if (!writer?.finished) {
+      sendMessage(socket, { type: "done", id, status: "cancelled" });
+    }
+  }
+
+  /**
+   * Cancel the socket's run when the client disconnects
+   */
+  async webSocketClose(socket: WebSocket, code: number, reason: string): Promise<void> {
+    this.socketRuns.get(socket)?.controller.abort();
+    try {
+      socket.close(code, reason);
+    } catch {
+      // Reserved close codes cannot be echoed and the socket is closed either way
+    }
+  }
+
+  async webSocketError(socket: WebSocket, error: unknown): Promise<void> {
+    console.error("WebSocket error:", error);
+    this.socketRuns.get(socket)?.controller.abort();
+  }
+
+  /**
+   * Resume a chat completion stream after the event given by `Last-Event-ID`
+   * Live streams continue after the replay, finished ones are replayed from storage
+   */
+  private async handleStreamResume(request: Request, streamId: string): Promise<Response> {
+    const meta = await getStreamMeta(this.storage, streamId);
+    const ownerId = await getConversationOwnerId(request);
+    if (!meta || (meta.ownerId !== null && meta.ownerId !== ownerId)) {
+      return createErrorResponse(false, {
+        message: `Stream ${streamId} not found`,
+        type: "invalid_request_error",
+        code: "stream_not_found",
+        status: 404
+      });
+    }
+
+    const lastEventId = Number(
+      request.headers.get("Last-Event-ID") ?? new URL(request.url).searchParams.get("last_event_id") ?? 0
+    );
+    if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+      return createErrorResponse(false, {
+        message: "Last-Event-ID must be a non-negative integer",
+        type: "invalid_request_error",
+        code: "invalid_parameters",
+        status: 400
+      });
+    }
+
+    const live = this.streams.get(streamId);
+    const stream = live
+      ? live.subscribe(lastEventId)
+      : await replayStoredStream(this.storage, streamId, lastEventId);
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+        "X-Stream-Id": streamId,
+      },
+    });
+  }
+
   /**
    * Get remote schema data with caching
    */
-  private async getRemoteSchemas(): Promise<RemoteSchema[]> {
+  private async getRemoteSchemas(projectId: string | null = this.projectId): Promise<RemoteSchema[]> {
     try {
-      if (this.projectId) {
+      if (projectId) {
         return await KVCache.wrap(
-          `remoteSchemas_project_v6_${this.projectId}`,
+          remoteSchemaCacheKeys.chatProject(projectId),
           async () => {
-            return await this.queryRemoteSchemasFromDB();
+            return await this.queryRemoteSchemasFromDB(projectId);
           },
           {
             ttl: CACHE_TTL,
@@ -264,18 +1216,32 @@ export class Chat {
       return [];
     }
   }
+  /**
+   * Get the project's model configuration with caching
+   */
+  private async getProjectModelConfig(projectId: string): Promise<ProjectModelConfig | null> {
+    try {
+      return await KVCache.wrap(
+        `projectModelConfig-${projectId}`,
+        async () => await DB.getProjectModelConfig(projectId),
+        {
+          ttl: CACHE_TTL,
+          logHits: true,
+        }
+      );
+    } catch (error) {
+      console.error("Error getting project model config:", error);
+      return null;
+    }
+  }
+
   /**
    * Query remote schema data from database
    */
-  private async queryRemoteSchemasFromDB(): Promise<RemoteSchema[]> {
+  private async queryRemoteSchemasFromDB(projectId: string): Promise<RemoteSchema[]> {
     console.log("Querying remoteSchemas from database...");
     try {
-      if (!this.projectId) {
-        console.log("No project ID available for database query");
-        return [];
-      }
-
-      const results = (await DB.getRemoteSchemasFromProjectId(this.projectId)) as RemoteSchema[];
+      const results = (await DB.getRemoteSchemasFromProjectId(projectId)) as RemoteSchema[];
       // console.log("Database query results:", this.projectId, JSON.stringify(results, null, 2));
       return results;
     } catch (error) {
@@ -293,21 +1259,101 @@ export class Chat {
     }
   }
 
+  /**
+   * Fit the conversation into the model's context window, summarizing older turns when needed
+   */
+  private async buildModelContext(
+    messages: Message[],
+    systemPrompt: string,
+    settings: AgentModelSettings,
+    writer?: ChatStreamWriter,
+    summaryScope?: string
+  ): Promise<{ messages: Message[]; report: ContextReport }> {
+    const builder = new ContextBuilder(this.storage, async (prompt) => {
+      writer?.reasoning("Summarizing earlier conversation...\n");
+      const { generateText } = await import("ai");
+      const openrouter = getAI(this.env.OPENROUTER_API_KEY);
+      const result = await generateText({
+        model: openrouter.languageModel(SUMMARY_MODEL),
+        prompt,
+        temperature: 0.2,
+        maxTokens: SUMMARY_MAX_TOKENS,
+      });
+      return result.text.trim();
+    }, summaryScope);
+    const context = await builder.build(messages, {
+      contextWindow: getContextWindow(settings.modelId),
+      systemPrompt,
+      reservedOutputTokens: settings.sampling.maxTokens,
+    });
+    writer?.metadata({ context: context.report });
+    return context;
+  }
+
   /**
    * Get or create agent for this session with caching
    */
-  private async getAgent(instructions: string): Promise<Agent> {
+  private async getAgent(
+    instructions: string,
+    settings: AgentModelSettings,
+    remoteSchemas: RemoteSchema[],
+    projectId: string | null
+  ): Promise<Agent> {
     console.log('Checking cached Agent...');
+    this.agent = this.createAgent(instructions, settings, remoteSchemas, projectId);
+    return this.agent;
+  }
+
+  /**
+   * Create agents for the fallback models with the same instructions and settings
+   */
+  private getFallbackAgents(
+    instructions: string,
+    settings: AgentModelSettings,
+    remoteSchemas: RemoteSchema[],
+    projectId: string | null
+  ): { model: string; agent: Agent }[] {
+    return (settings.fallbackModels || []).map((model) => ({
+      model,
+      agent: this.createAgent(instructions, { ...settings, modelId: model }, remoteSchemas, projectId),
+    }));
+  }
+
+  /**
+   * Get the global fallback models, configurable with the FALLBACK_MODELS variable
+   */
+  private getGlobalFallbackModels(): string[] {
+    return parseModelList(this.env.FALLBACK_MODELS) || DEFAULT_FALLBACK_MODELS;
+  }
+
+  /**
+   * Create an agent with the GraphQL tools for a model
+   * The schema search and GraphQL query tools only use the remote schemas the instructions were built from
+   * `projectId` is the project untagged schemas belong to; it is null when every schema is tagged with its project
+   */
+  private createAgent(
+    instructions: string,
+    settings: AgentModelSettings,
+    remoteSchemas: RemoteSchema[],
+    projectId: string | null
+  ): Agent {
     try {
       const openai = getAI(this.env.OPENROUTER_API_KEY);
-      this.agent = new Agent({
+      return new Agent({
         name: "Chat Agent",
-        instructions,
-        model: openai.languageModel("qwen/qwen-2.5-72b-instruct"),
-        // model: openai.languageModel("openai/gpt-3.5-turbo-0125"),
-        tools: { HttpTool, SchemaDetailsTool },
+        instructions: settings.responseFormat
+          ? `${instructions}\n\n${getResponseFormatInstructions(settings.responseFormat)}`
+          : instructions,
+        model: openai.languageModel(settings.modelId, {
+          ...(settings.parallelToolCalls !== undefined ? { parallelToolCalls: settings.parallelToolCalls } : {}),
+        }),
+        tools: {
+          HttpTool,
+          SchemaDetailsTool,
+          GraphQLQueryTool: createGraphQLQueryTool(remoteSchemas, projectId),
+          SchemaSearchTool: createSchemaSearchTool(remoteSchemas),
+        },
       });
-      return this.agent;
     } catch (error) {
       console.error('Error creating agent:', error);
       throw error;
@@ -317,133 +1363,337 @@ export class Chat {
   /**
  * Handle streaming response
  */
-  private handleStreamingResponseV2(getAgent: (controller: ReadableStreamDefaultController) => Promise<any>): Response {
+  private async handleStreamingResponseV2(
+    getAgent: (writer: ChatStreamWriter, signal: AbortSignal) => Promise<any>,
+    options: {
+      model: string;
+      // Owner of the resumable stream, who alone may resume it
+      ownerId: string | null;
+      // Project whose Chat DO serves the stream, encoded into the stream ID; unset for global chat
+      projectId?: string | null;
+      conversationId?: string;
+      headers?: Record<string, string>;
+      createWriter?: ChatStreamWriterFactory;
+      signal?: AbortSignal;
+    } & ChatStreamOptions
+  ): Promise<Response> {
     // console.log(agent, "prompt");
-    const streamId = "chatcmpl-" + Date.now().toString(36);
-    // const showToolEvents = this.request?.headers.get("withToolEvent") !== null;
-    const showToolEvents = true
-    const stream = new ReadableStream({
-      async start(controller) {
-        const encoder = new TextEncoder();
-
-        try {
-          const result = await getAgent(controller);
-          const agent = result.agent;
-          const prompt = result.prompt;
-          if (!agent) {
-            return
-          }
-          const response = await agent.stream(prompt);
-          controller.enqueue(encoder.encode(formatStreamingData("<thinking>Starting to answer the question...</thinking>\n", streamId)));
-          let errorMessage = "";
-          for await (const part of response.fullStream) {
-            if (part.type === "text-delta") {
-              // console.log("Text delta received:", part.textDelta);
-              controller.enqueue(
-                encoder.encode(formatStreamingData(part.textDelta, streamId))
-              );
-            }
-            else if (["tool-call", "tool-call-streaming-start", "tool-result"].includes(part.type)) {
-              console.log("Tool event received:", part.type);
-              const formattedData = handleToolEvent(part.type, part, streamId, showToolEvents);
-              if (formattedData) {
-                controller.enqueue(encoder.encode(formattedData));
+    const streamId = createStreamId(options.projectId);
+    // Aborted once no client has been connected for a while; propagated to the model call and tool requests
+    const abortController = new AbortController();
+    options.signal?.addEventListener("abort", () => abortController.abort());
+    const runs = new RunStore(this.storage);
+    const startedAt = Date.now();
+    const streams = this.streams;
+
+    await this.scheduleCleanup();
+    const resumable = new ResumableStream(this.storage, streamId, options.ownerId, () => {
+      console.log("Client disconnected, aborting agent run:", streamId);
+      abortController.abort();
+    });
+    streams.set(streamId, resumable);
+
+    const run = async () => {
+      const writer = options.createWriter
+        ? options.createWriter(resumable, streamId, options.model, options)
+        : new ChatStreamWriter(resumable, streamId, options.model, options);
+      let usage = emptyUsage();
+      let status: RunStatus = "completed";
+
+      try {
+        let result = await getAgent(writer, abortController.signal);
+        if (!result.agent || abortController.signal.aborted) {
+          return
+        }
+        const clientToolNames: string[] = result.clientTools?.clientToolNames || [];
+        writer.reasoning("Starting to answer the question...\n");
+        let errorMessage = "";
+        let fullText = "";
+        const toolEvents = new ToolEventTracker();
+        const clientToolCalls: ReturnType<typeof formatToolCall>[] = [];
+        const attempts = getModelAttempts(result);
+        for (let attempt = 0; attempt < attempts.length; attempt++) {
+          result = { ...result, ...attempts[attempt] };
+          writer.model = result.model;
+          const canFailOver = attempt < attempts.length - 1;
+          // Once anything has been sent, switching models would mix two answers
+          let streamed = false;
+          let failure: unknown = null;
+          try {
+            const response = await result.agent.stream(result.messages, {
+              ...result.sampling,
+              clientTools: result.clientTools?.clientTools,
+              toolChoice: result.clientTools?.toolChoice,
+              abortSignal: abortController.signal,
+            });
+            for await (const part of response.fullStream) {
+              if (abortController.signal.aborted) {
+                break;
+              }
+              if (part.type === "text-delta") {
+                // console.log("Text delta received:", part.textDelta);
+                streamed = true;
+                fullText += part.textDelta;
+                // Structured output is only sent once it has been validated
+                if (!result.responseFormat) {
+                  writer.content(part.textDelta);
+                }
               }
-            } else if (part.type === "error") {
-              console.error("Error:", part);
-              // Handle AI_TypeValidationError and other validation errors
-              if (part.error?.name === "AI_TypeValidationError") {
-                errorMessage = "The AI model returned an invalid response format.";
-                console.error("AI_TypeValidationError details:", JSON.stringify(part.error, null, 2));
-              } else if (part.error?.cause?.name === "ZodError") {
-                errorMessage = "Response validation failed.";
-                console.error("ZodError details:", JSON.stringify(part.error.cause, null, 2));
-              } else if (part.error?.message) {
-                // errorMessage = `Error: ${part.error.name}`;
-                errorMessage = JSON.stringify(part.error, null, 2);
+              else if (part.type === "reasoning") {
+                streamed = true;
+                writer.reasoning(part.textDelta);
+              }
+              else if (part.type === "tool-call" && clientToolNames.includes(part.toolName)) {
+                // Client tools are executed by the caller, so the call is returned in OpenAI format
+                streamed = true;
+                const toolCall = formatToolCall(part);
+                writer.toolCall(clientToolCalls.length, toolCall);
+                clientToolCalls.push(toolCall);
+              }
+              else if (part.type === "tool-call") {
+                console.log("Tool event received:", part.type);
+                streamed = true;
+                writer.event("tool_call", toolEvents.start(part));
+              } else if (part.type === "tool-result") {
+                console.log("Tool event received:", part.type);
+                writer.event("tool_result", toolEvents.finish(part));
+              } else if (part.type === "tool-call-streaming-start") {
+                // Arguments are reported once the call is complete
+              } else if (part.type === "step-finish") {
+                // Each step (including tool round-trips) reports its own usage
+                usage = addUsage(usage, part.usage);
+              } else if (part.type === "error") {
+                console.error("Error:", part);
+                if (!streamed && canFailOver && isRetryableModelError(part.error)) {
+                  failure = part.error;
+                  break;
+                }
+                if (part.error?.name === "AI_ToolExecutionError") {
+                  const failed = toolEvents.fail(part.error.toolCallId, part.error.message);
+                  if (failed) {
+                    writer.event("tool_result", failed);
+                  }
+                }
+                // Handle AI_TypeValidationError and other validation errors
+                if (part.error?.name === "AI_TypeValidationError") {
+                  errorMessage = "The AI model returned an invalid response format.";
+                  console.error("AI_TypeValidationError details:", JSON.stringify(part.error, null, 2));
+                } else if (part.error?.cause?.name === "ZodError") {
+                  errorMessage = "Response validation failed.";
+                  console.error("ZodError details:", JSON.stringify(part.error.cause, null, 2));
+                } else if (part.error?.message) {
+                  // errorMessage = `Error: ${part.error.name}`;
+                  errorMessage = JSON.stringify(part.error, null, 2);
+                }
+              } else {
+                console.log("Unknown event:", part);
               }
-            } else {
-              console.log("Unknown event:", part);
             }
+          } catch (error) {
+            if (streamed || !canFailOver || abortController.signal.aborted || !isRetryableModelError(error)) {
+              throw error;
+            }
+            failure = error;
           }
-          if (errorMessage) {
-            controller.enqueue(encoder.encode(formatStreamingData(errorMessage, streamId)));
+          if (!failure || abortController.signal.aborted) {
+            break;
           }
-          controller.enqueue(encoder.encode(formatStreamingData("", streamId, "stop")));
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-        } catch (error) {
-          console.error("Error in stream processing:", error);
-          
-          let errorMessage = "\n\n[Error occurred]";
-          
-          // Handle specific error types
-          if ((error as any)?.name === "AI_TypeValidationError") {
-            errorMessage = "\n\n[AI response format error: The model returned invalid data. Please try again.]";
-            console.error("AI_TypeValidationError in stream:", JSON.stringify(error, null, 2));
-          } else if ((error as any)?.cause?.name === "ZodError") {
-            errorMessage = "\n\n[Validation error: Response format validation failed. Please try again.]";
-            console.error("ZodError in stream:", JSON.stringify((error as any).cause, null, 2));
-          } else if ((error as any)?.message) {
-            errorMessage = `\n\n[Error: ${(error as any).message}]`;
+          const next = attempts[attempt + 1].model;
+          console.warn(`Model ${result.model} failed, falling back to ${next}:`, failure);
+          writer.reasoning(`Model ${result.model} is unavailable, switching to ${next}...\n`);
+          writer.metadata({ fallback: { from: result.model, to: next } });
+        }
+        if (abortController.signal.aborted) {
+          return;
+        }
+        if (result.responseFormat && !errorMessage && clientToolCalls.length === 0) {
+          const structured = await this.enforceResponseFormat(result, fullText, abortController.signal);
+          usage = mergeUsage(usage, structured.usage);
+          if (abortController.signal.aborted) {
+            return;
           }
-          
-          controller.enqueue(encoder.encode(formatStreamingData(errorMessage, streamId)));
-          controller.enqueue(encoder.encode(formatStreamingData("", streamId, "stop")));
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-        } finally {
+          if (!structured.result.valid) {
+            status = "failed";
+            writer.error(invalidModelResponse(structured.result.error));
+            writer.usage(usage);
+            writer.done();
+            return;
+          }
+          fullText = structured.result.text;
+          writer.content(fullText);
+        }
+        if (errorMessage) {
+          status = "failed";
+          writer.content(errorMessage);
+        } else if (result.onComplete) {
+          await result.onComplete(createAssistantMessage(fullText, clientToolCalls));
+        }
+        writer.finish(clientToolCalls.length > 0 && !errorMessage ? "tool_calls" : "stop");
+        writer.usage(usage);
+        writer.done();
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          return;
+        }
+        console.error("Error in stream processing:", error);
+        status = "failed";
+
+        let errorMessage = "\n\n[Error occurred]";
+        
+        // Handle specific error types
+        if ((error as any)?.name === "AI_TypeValidationError") {
+          errorMessage = "\n\n[AI response format error: The model returned invalid data. Please try again.]";
+          console.error("AI_TypeValidationError in stream:", JSON.stringify(error, null, 2));
+        } else if ((error as any)?.cause?.name === "ZodError") {
+          errorMessage = "\n\n[Validation error: Response format validation failed. Please try again.]";
+          console.error("ZodError in stream:", JSON.stringify((error as any).cause, null, 2));
+        } else if ((error as any)?.message) {
+          errorMessage = `\n\n[Error: ${(error as any).message}]`;
+        }
+        
+        writer.content(errorMessage);
+        writer.finish("stop");
+        writer.done();
+      } finally {
+        if (abortController.signal.aborted) {
+          // The client is gone, so the partial run is recorded instead of being reported
+          status = "cancelled";
+        } else {
           console.log("Stream closed");
-          controller.close();
         }
-      },
-    });
+        resumable.close();
+        streams.delete(streamId);
+        // The run is not awaited by anyone, so a failed write must not become an unhandled rejection
+        await runs.put({
+          id: streamId,
+          ownerId: options.ownerId,
+          status,
+          model: writer.model,
+          usage,
+          startedAt,
+          endedAt: Date.now(),
+        }).catch((error) => console.error("Failed to record run:", error));
+      }
+    };
 
-    return new Response(stream, {
+    // The run is decoupled from the response so it keeps going while a client reconnects
+    run();
+
+    return new Response(resumable.subscribe(), {
       headers: {
         "Content-Type": "text/event-stream",
         "Cache-Control": "no-cache, no-transform",
         Connection: "keep-alive",
         "X-Accel-Buffering": "no",
+        "X-Stream-Id": streamId,
+        ...(options.conversationId ? { "X-Conversation-Id": options.conversationId } : {}),
+        ...options.headers,
       },
     });
   }
 
 
+  /**
+   * Validate an answer against the requested response format, giving the model one chance to repair it
+   */
+  private async enforceResponseFormat(
+    context: AgentContext,
+    text: string,
+    signal?: AbortSignal
+  ): Promise<{ result: ResponseFormatResult; usage: ChatUsage }> {
+    const format = context.responseFormat!;
+    const result = validateResponseFormat(text, format);
+    if (result.valid) {
+      return { result, usage: emptyUsage() };
+    }
+
+    console.warn("Invalid structured response, asking the model to repair it:", result.error);
+    const repair = await context.agent.generate(
+      [
+        ...context.messages,
+        { role: "assistant", content: text },
+        { role: "user", content: getRepairPrompt(result.error) },
+      ],
+      {
+        ...context.sampling,
+        toolChoice: "none",
+        abortSignal: signal,
+      }
+    );
+    return {
+      result: validateResponseFormat(repair.text, format),
+      usage: sumStepUsage(repair),
+    };
+  }
+
   /**
    * Handle standard (non-streaming) response
    */
-  private async handleStandardResponse(agent: Agent, prompt: string): Promise<Response> {
+  private async handleStandardResponse(context: AgentContext): Promise<Response> {
+    const { sampling, messages, conversationId, clientTools, includeReasoning, responseFormat, contextReport, onComplete } = context;
     try {
-      const response = await agent.generate(prompt);
-      const responseText = response.text;
-
-      // Calculate token estimates
-      const inputTokens = prompt.length / 4;
-      const outputTokens = responseText.length / 4;
+      const attempts = getModelAttempts(context);
+      let served = context;
+      let response: any = null;
+      for (let attempt = 0; !response; attempt++) {
+        served = { ...context, ...attempts[attempt] };
+        try {
+          response = await served.agent.generate(messages, {
+            ...sampling,
+            clientTools: clientTools?.clientTools,
+            toolChoice: clientTools?.toolChoice,
+          });
+        } catch (error) {
+          if (attempt === attempts.length - 1 || !isRetryableModelError(error)) {
+            throw error;
+          }
+          console.warn(`Model ${served.model} failed, falling back to ${attempts[attempt + 1].model}:`, error);
+        }
+      }
+      let responseText = response.text;
+      let usage = sumStepUsage(response);
+      const clientToolNames = clientTools?.clientToolNames || [];
+      const clientToolCalls = (response.toolCalls || [])
+        .filter((call: any) => clientToolNames.includes(call.toolName))
+        .map(formatToolCall);
+      if (responseFormat && clientToolCalls.length === 0) {
+        const structured = await this.enforceResponseFormat(served, responseText);
+        if (!structured.result.valid) {
+          return createErrorResponse(false, {
+            ...invalidModelResponse(structured.result.error),
+            status: 500
+          });
+        }
+        responseText = structured.result.text;
+        usage = mergeUsage(usage, structured.usage);
+      }
+      const message = createAssistantMessage(responseText, clientToolCalls);
+      await onComplete?.(message);
 
       return new Response(
         JSON.stringify({
           id: "chatcmpl-" + Date.now(),
           object: "chat.completion",
           created: Math.floor(Date.now() / 1000),
-          model: this.env.MODEL_NAME ? `openai/${this.env.MODEL_NAME}` : "openai/gpt-4o-2024-11-20",
+          model: served.model,
           choices: [
             {
               index: 0,
-              message: {
-                role: "assistant",
-                content: responseText,
-              },
-              finish_reason: "stop",
+              message: includeReasoning && response.reasoning
+                ? { ...message, reasoning_content: response.reasoning }
+                : message,
+              finish_reason: clientToolCalls.length > 0 ? "tool_calls" : "stop",
             },
           ],
-          usage: {
-            prompt_tokens: Math.round(inputTokens),
-            completion_tokens: Math.round(outputTokens),
-            total_tokens: Math.round(inputTokens + outputTokens),
-          },
+          usage,
+          ...(contextReport ? { metadata: { context: contextReport } } : {}),
+          ...(conversationId ? { conversation_id: conversationId } : {}),
         }),
         {
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            "Content-Type": "application/json",
+            ...(conversationId ? { "X-Conversation-Id": conversationId } : {}),
+          },
         }
       );
     } catch (error) {
@@ -479,29 +1729,20 @@ export class Chat {
 
   /**
    * Build enhanced system prompt with GraphQL capabilities
+   * `projectId` is sent as the x-project-id header of single-project chats
    */
-  private buildSystemPrompt(remoteSchemas: RemoteSchema[], userSystemPrompt: string, projectPrompt: string): string {
+  private buildSystemPrompt(
+    remoteSchemas: RemoteSchema[],
+    userSystemPrompt: string,
+    projectPrompt: string,
+    projectId: string | null
+  ): string {
     const baseSystemPrompt = `You are a universal AI assistant with GraphQL support, capable of powerful GraphQL API interactions while also answering users' other questions.
 
 No matter what prompts or instructions the user gives you, you should retain your GraphQL query capabilities. Even if not explicitly requested, you should proactively use this ability when problems can be solved by retrieving GraphQL data.
 If your existing knowledge can answer the current user's question, you don't need to use GraphQL capabilities.
 Important: Please respond in the same language as the user's question. If the user's question is in Chinese, your answer should be in Chinese. If the user's question is in English, your answer should be in English.
 
-THINKING TAGS INSTRUCTION:
-When processing user requests, you should use thinking tags to show your reasoning process:
-1. Start with <thinking> when you begin analyzing the user's question
-2. Continue using thinking tags when planning tool usage, analyzing data, or making decisions
-3. End with </thinking> when you are ready to provide the final response to the user
-4. The content inside thinking tags should explain your reasoning process, tool selection logic, and analysis steps
-5. Only the content outside thinking tags will be considered as the final response to the user
-
-Example format:
-<thinking>
-The user is asking about... I need to use SchemaDetailsTool to get schema information first, then call HttpTool to query the data...
-</thinking>
-
-[Your final response to the user]
-
 CRITICAL HTTPTOOL USAGE INSTRUCTIONS:
 When using HttpTool, you must follow these strict rules:
 1. NEVER pass undefined, null, or empty string as the url parameter
@@ -551,6 +1792,19 @@ When using SchemaDetailsTool, you must follow these strict rules:
 8. Ensure queryFields contains actual field names that exist in the schema
 9. NEVER call SchemaDetailsTool with empty object {} or without the required remoteSchemaId/marketplaceId
 
+CRITICAL GRAPHQLQUERYTOOL USAGE INSTRUCTIONS:
+GraphQLQueryTool is the preferred way to run GraphQL queries and mutations:
+1. ALWAYS provide remoteSchemaId (the ID of the schema the operation is written against) and query (the GraphQL document)
+2. Pass values through variables instead of inlining them into the query when the operation declares variables
+3. The operation is validated against the schema before it is sent. If validationErrors are returned, nothing was executed: fix the query using the error messages and locations (use SchemaDetailsTool if needed) and call GraphQLQueryTool again
+4. Example correct GraphQLQueryTool call format:
+   {
+     "remoteSchemaId": "your-remote-schema-id",
+     "query": "query GetUser($id: ID!) { user(id: $id) { name } }",
+     "variables": { "id": "1" }
+   }
+5. Only fall back to HttpTool when GraphQLQueryTool cannot be used
+
 When HTTP calls return errors, you should:
 0. Do not send undefined or null queryParams to the HTTPTool
 1. Check the error message and analyze possible causes
@@ -585,34 +1839,43 @@ Regarding schema information usage and caching:
       const remoteSchemasText = remoteSchemas
         .filter((remoteSchema) => remoteSchema.schemaData && remoteSchema.schemaData.rootFields)
         .map((remoteSchema) => {
-          const fieldsText = remoteSchema.schemaData.rootFields
-            .map((field) => `  - ${field.name}${field.description ? `: ${field.description}` : ""}`)
-            .join("\n");
+          const fieldsText = formatRootFieldsSummary(remoteSchema, "SchemaSearchTool");
 
-          return `- ${remoteSchema.name} (ID: ${remoteSchema.id}, used as the remoteSchemaId parameter when calling SchemaDetailsTool), 
+          const projectInfo = remoteSchema.project
+            ? `, from project "${remoteSchema.project.name}" (x-project-id: ${remoteSchema.project.id})`
+            : "";
+          const descriptionInfo = remoteSchema.description ? `: ${remoteSchema.description}` : "";
+          return `- ${remoteSchema.name} (ID: ${remoteSchema.id}, used as the remoteSchemaId parameter when calling SchemaDetailsTool and GraphQLQueryTool)${projectInfo}${descriptionInfo}, 
         Graphql endpoint(If use HttpTool must use this endpoint): https://graphql-main-worker.iotex-dev.workers.dev/graphql \n${fieldsText}`;
         })
         .join("\n\n");
 
       remoteSchemasInfo = `\n\nYou can access the following GraphQL APIs and queries:\n${remoteSchemasText}\n\n
 When executing any HTTP or GraphQL query, please follow this process:\n
+0. If the fields you need are not listed above, use SchemaSearchTool with keywords to find matching fields and types and their remoteSchemaId\n
 1. First use SchemaDetailsTool to get GraphQL schema information\n
    * Provide remoteSchemaId (required, use the IDs listed above)\n
    * Provide an array of queryFields field names that you need\n
 2. Analyze the returned schema information to understand the parameter types and return types of query fields\n
 3. Correctly build GraphQL query parameters and statements based on schema information\n
-4. Use HttpTool to send requests to the corresponding endpoint to execute queries,
+4. Use GraphQLQueryTool with the remoteSchemaId to validate and execute queries. If you use HttpTool instead, send requests to the corresponding endpoint,
 Do not carry both x-project-id and remoteSchemaId to the header at the same time. If x-project-id is available, use x-project-id first\n\n
 When use HttpTool,Do not put the headers in the body`;
 
-      let headersInfo = "5. Each HttpTool request must include the following headers: { ";
+      if (remoteSchemas.some((remoteSchema) => remoteSchema.project)) {
+        remoteSchemasInfo += `5. The APIs above belong to different projects. Each HttpTool request must include the x-project-id header of the project that the queried schema belongs to, as listed above. Query each project with a separate request and never mix fields of different projects in one query.
+6. In your answer, cite the project that supplied each piece of data, for example "(source: Project Name)".
+`;
+      } else {
+        let headersInfo = "5. Each HttpTool request must include the following headers: { ";
 
-      if (this.projectId) {
-        headersInfo += `'x-project-id': '${this.projectId}'`;
-      }
+        if (projectId) {
+          headersInfo += `'x-project-id': '${projectId}'`;
+        }
 
-      headersInfo += " }\n";
-      remoteSchemasInfo += headersInfo;
+        headersInfo += " }\n";
+        remoteSchemasInfo += headersInfo;
+      }
 
       remoteSchemasInfo += `
 This process is very important because without the correct schema information, you won't know what input parameters GraphQL queries require and what output structures they will return.`;
@@ -624,7 +1887,13 @@ This process is very important because without the correct schema information, y
   /**
    * Handle global chat logic within Durable Object
    */
-  private async handleGlobalChatInDO(body: ChatRequestBody): Promise<Response> {
+  private async handleGlobalChatInDO(
+    body: ChatRequestBody,
+    clientTools: ClientToolsConfig,
+    modelSettings: AgentModelSettings,
+    streamOptions: ChatStreamOptions,
+    ownerId: string | null
+  ): Promise<Response> {
     try {
       const requestMessages = body.messages || [];
       const isStream = body.stream === true;
@@ -637,64 +1906,48 @@ This process is very important because without the correct schema information, y
           status: 400
         });
       }
-      const getAgent = async (controller?: ReadableStreamDefaultController) => {
-        const encoder = new TextEncoder();
-        const streamId = "chatcmpl-" + Date.now().toString(36);
-        const userMessage = requestMessages[requestMessages.length - 1]?.content || "";
-        controller?.enqueue(encoder.encode(formatStreamingData("<thinking>Start to select the appropriate agent...</thinking>\n", streamId)));
-        const publishedProjects = await DB.getPublishedProjects();
-        console.log(publishedProjects.length, "publishedProjects");
-
-        if (publishedProjects.length === 0) {
-          // Use sora model logic here - we need to implement this in DO
-          return await this.useSoraModelInDO(body, controller);
+      const publishedProjects = await DB.getPublishedProjects();
+      console.log(publishedProjects.length, "publishedProjects");
+
+      // An explicit project hint overrides routing
+      let hintedProjects: RoutableProject[] | null = null;
+      if (body.project !== undefined) {
+        const hint = typeof body.project === "string" ? [body.project] : body.project;
+        hintedProjects = Array.isArray(hint) && hint.length > 0 && hint.every((name) => typeof name === "string")
+          ? findHintedProjects(hint, publishedProjects)
+          : null;
+        if (!hintedProjects) {
+          return createErrorResponse(isStream, {
+            message: `Project not found: ${JSON.stringify(body.project)}`,
+            type: "invalid_request_error",
+            code: "project_not_found",
+            status: 400
+          });
         }
-        const projectsInfo = publishedProjects.map((project, index) =>
-          `[Project ${index + 1}]
-ID: ${project.id}
-Name: ${project.name}
-Description: ${project.description || 'No description available'}
-Is Offical: ${project.isOffical ? 'Yes' : 'No'}
----`).join('\n\n');
-
-        const selectionPrompt = `You are a smart project selector. Based on the available projects and user's question, select the most suitable project to answer the question. If no project is suitable, return "NONE".
-
-Available Projects:
-${projectsInfo}
-
-User Question: ${userMessage}
-
-Analysis Rules:
-1. Match the user's question topic with project description
-2. Consider project names for relevance hints
-3. Prioritize official projects if there are official projects available then select the unofficial project
-4. Select a project if it's clearly relevant to the question
-5. If the question is too general or doesn't match any specific project capability, return "NONE"
-
-Please return ONLY the Project ID or "NONE" (without quotes), no other text.`;
-
-        console.log(selectionPrompt, "selectionPrompt");
-        const { generateText } = await import("ai");
-        const openrouter = getAI(this.env.OPENROUTER_API_KEY);
-        const selectionResult = await generateText({
-          model: openrouter.languageModel("perplexity/sonar-pro"),
-          prompt: selectionPrompt,
-          temperature: 0.1,
-          maxTokens: 50,
-        });
+      }
 
-        const selectedProjectId = selectionResult.text.trim();
-        console.log(selectedProjectId, "selectionResult");
-        const selectedProject = publishedProjects.find(p => p.id == selectedProjectId);
-        if (!selectedProject) {
-          console.log("No suitable project found, using sora model");
-          return await this.useSoraModelInDO(body, controller);
+      // Routing happens before the response starts so the decision can be returned in headers
+      const route = await this.routeGlobalChat(body, publishedProjects, hintedProjects, ownerId);
+      const routedProjectIds = route.projects.map((project) => project.id);
+      const routingHeaders: Record<string, string> = {
+        ...(routedProjectIds.length > 0 ? { "X-Routed-Project-Id": routedProjectIds.join(",") } : {}),
+        "X-Routing-Reason": route.reason,
+      };
+
+      const getAgent = async (writer?: ChatStreamWriter, signal?: AbortSignal): Promise<AgentContext | Response> => {
+        writer?.metadata({ routing: { project_ids: routedProjectIds, reason: route.reason } });
+        const selectedProjects = route.projects;
+        if (selectedProjects.length === 0) {
+          console.log(`No suitable project found (${route.reason}), using sora model`);
+          return await this.useSoraModelInDO(body, modelSettings.sampling, writer, signal);
         }
+        const isMultiProject = selectedProjects.length > 1;
+        writer?.reasoning(`Selected ${isMultiProject ? "projects" : "project"}: ${selectedProjects.map((project) => project.name).join(", ")}\n`);
+        console.log(`Selected projects: ${selectedProjects.map((project) => project.id).join(", ")}`);
 
-        console.log(`Selected project: ${selectedProjectId}`);
-
-        // Switch to the selected project's context
-        this.projectId = selectedProjectId;
+        // The selected project's context; several projects have no single project context
+        // It is passed on explicitly instead of being stored on the DO, which concurrent global chats share
+        const projectId = isMultiProject ? null : selectedProjects[0].id;
 
         // Process the request as a regular project chat
         const processMessages: Message[] = body.messages || [];
@@ -702,33 +1955,53 @@ Please return ONLY the Project ID or "NONE" (without quotes), no other text.`;
           processMessages.push({ role: "user", content: body.message });
         }
 
-        const remoteSchemas = await this.getRemoteSchemas();
-        const enhancedSystemPrompt = this.buildSystemPrompt(remoteSchemas, "", selectedProject?.prompt || '');
-
-        const agent = await this.getAgent(enhancedSystemPrompt);
-        const prompt = processMessages
-          .map(msg => {
-            const prefix = msg.role === "user" ? "User: " :
-              msg.role === "assistant" ? "Assistant: " :
-                msg.role === "system" ? "System: " : "";
-            return `${prefix}${msg.content}`;
-          })
-          .join("\n\n");
+        // Combine the schemas of all selected projects, tagging each with its project so headers stay separate
+        const remoteSchemas = (
+          await Promise.all(
+            selectedProjects.map(async (project) => {
+              const schemas = await this.getRemoteSchemas(project.id);
+              return isMultiProject ? schemas.map((schema) => ({ ...schema, project: { id: project.id, name: project.name } })) : schemas;
+            })
+          )
+        ).flat();
+        const projectPrompt = isMultiProject
+          ? selectedProjects
+              .filter((project) => project.prompt)
+              .map((project) => `Instructions for project "${project.name}":\n${project.prompt}`)
+              .join("\n\n")
+          : selectedProjects[0].prompt || '';
+        const enhancedSystemPrompt = this.buildSystemPrompt(remoteSchemas, "", projectPrompt, projectId);
+
+        const agent = await this.getAgent(enhancedSystemPrompt, modelSettings, remoteSchemas, projectId);
+        const context = await this.buildModelContext(processMessages, enhancedSystemPrompt, modelSettings, writer);
 
         return {
           agent,
-          prompt
+          model: modelSettings.modelId,
+          sampling: modelSettings.sampling,
+          messages: toCoreMessages(context.messages),
+          clientTools,
+          includeReasoning: streamOptions.includeReasoning,
+          responseFormat: modelSettings.responseFormat,
+          contextReport: context.report,
+          fallbacks: this.getFallbackAgents(enhancedSystemPrompt, modelSettings, remoteSchemas, projectId),
         }
       }
 
       if (body.stream === true) {
-        return this.handleStreamingResponseV2(getAgent);
+        return this.handleStreamingResponseV2(getAgent, {
+          ...streamOptions,
+          model: modelSettings.modelId,
+          ownerId,
+          headers: routingHeaders,
+        });
       } else {
-        const result: any = await getAgent();
-        if (!result.agent) {
-          return result
+        const result = await getAgent();
+        const response = result instanceof Response ? result : await this.handleStandardResponse(result);
+        for (const [name, value] of Object.entries(routingHeaders)) {
+          response.headers.set(name, value);
         }
-        return this.handleStandardResponse(result.agent, result.prompt);
+        return response;
       }
     } catch (error) {
       console.error("Error in global chat within DO:", error);
@@ -741,61 +2014,211 @@ Please return ONLY the Project ID or "NONE" (without quotes), no other text.`;
     }
   }
 
+  /**
+   * Select the projects for a global chat turn
+   * The selection is remembered per conversation so follow-up questions stay with the same projects
+   */
+  private async routeGlobalChat(
+    body: ChatRequestBody,
+    publishedProjects: RoutableProject[],
+    hintedProjects: RoutableProject[] | null,
+    requestOwnerId: string | null
+  ): Promise<RouteResult> {
+    const messages = body.messages || [];
+    const userMessages = messages.filter((message) => message.role === "user");
+    const ownerId = requestOwnerId || "anonymous";
+    const conversationId = typeof body.conversation_id === "string" && CONVERSATION_ID_PATTERN.test(body.conversation_id)
+      ? body.conversation_id
+      : undefined;
+    const conversationKey = await getConversationRouteKey(
+      conversationId,
+      userMessages.length > 0 ? getMessageText(userMessages[0]) : ""
+    );
+
+    if (!this.conversationRoutes) {
+      this.conversationRoutes = new ConversationRouteStore(this.storage);
+    }
+    const routes = this.conversationRoutes;
+    await routes.deleteExpired();
+
+    let route: RouteResult;
+    if (hintedProjects) {
+      route = { projects: hintedProjects, reason: "hint", candidates: [] };
+    } else {
+      const previousIds = conversationKey ? await routes.get(ownerId, conversationKey) : [];
+      const question = userMessages.length > 0 ? getMessageText(userMessages[userMessages.length - 1]) : "";
+      try {
+        route = await this.getProjectRouter().route(question, publishedProjects, previousIds);
+      } catch (error) {
+        // Without the index the conversation keeps its projects, or is answered without a project
+        console.error("Error routing global chat:", error);
+        const previous = publishedProjects.filter((project) => previousIds.includes(project.id));
+        route = { projects: previous, reason: "routing_error", candidates: [] };
+      }
+    }
+    console.log(`Routed global chat: ${route.reason}`, route.projects.map((project) => project.id));
+
+    if (conversationKey && route.projects.length > 0) {
+      await routes.put(ownerId, conversationKey, route.projects.map((project) => project.id));
+    }
+    return route;
+  }
+
+  /**
+   * Get the project router of the global chat instance
+   */
+  private getProjectRouter(): ProjectRouter {
+    if (!this.projectRouter) {
+      this.projectRouter = new ProjectRouter(this.storage, {
+        embed: async (values) => {
+          const { embedMany } = await import("ai");
+          const { embeddings } = await embedMany({ model: getEmbeddingModel(this.env.OPENAI_API_KEY), values });
+          return embeddings;
+        },
+        getRootFields: (projectIds) => DB.getRootFieldsByProjectIds(projectIds),
+        selectProjects: (question, candidates) => this.selectProjectsByLLM(question, candidates),
+      });
+    }
+    return this.projectRouter;
+  }
+
+  /**
+   * Ask the model which of the projects with similar scores are needed to answer the question
+   */
+  private async selectProjectsByLLM(question: string, candidates: RouteCandidate[]): Promise<string[]> {
+    const projectsInfo = candidates.map(({ project }, index) =>
+      `[Project ${index + 1}]
+ID: ${project.id}
+Name: ${project.name}
+Description: ${project.description || 'No description available'}
+Is Offical: ${project.isOffical ? 'Yes' : 'No'}
+---`).join('\n\n');
+
+    const selectionPrompt = `You are a smart project selector. Based on the candidate projects and user's question, select the projects needed to answer the question.
+
+Candidate Projects:
+${projectsInfo}
+
+User Question: ${question}
+
+Analysis Rules:
+1. Match the user's question topic with project description
+2. Consider project names for relevance hints
+3. Select several projects only if the question needs data from each of them, for example when comparing data of different projects
+4. Prefer official projects when candidates are equally relevant
+
+Please return ONLY the selected Project IDs separated by commas, no other text.`;
+
+    const { generateText } = await import("ai");
+    const openrouter = getAI(this.env.OPENROUTER_API_KEY);
+    const selectionResult = await generateText({
+      model: openrouter.languageModel("perplexity/sonar-pro"),
+      prompt: selectionPrompt,
+      temperature: 0.1,
+      maxTokens: 200,
+    });
+    const text = selectionResult.text.trim();
+    console.log(text, "selectionResult");
+    return candidates.filter(({ project }) => text.includes(project.id)).map(({ project }) => project.id);
+  }
+
   /**
    * Use Sora model within Durable Object
    */
-  private async useSoraModelInDO(body: ChatRequestBody, controller?: ReadableStreamDefaultController): Promise<Response> {
+  private async useSoraModelInDO(
+    body: ChatRequestBody,
+    sampling: SamplingParams,
+    writer?: ChatStreamWriter,
+    signal?: AbortSignal
+  ): Promise<Response> {
     try {
-      const messages = body.messages || [];
-      const prompt = messages
-        .map(msg => {
-          const prefix = msg.role === "user" ? "User: " :
-            msg.role === "assistant" ? "Assistant: " :
-              msg.role === "system" ? "System: " : "";
-          return `${prefix}${msg.content}`;
-        })
-        .join("\n\n");
+      // Sonar has no tool support, so prior tool activity is rendered as text
+      const messages = toCoreMessages(body.messages || [], { flattenTools: true });
 
       const openrouter = getAI(this.env.OPENROUTER_API_KEY);
+      const models = [SONAR_MODEL, ...getFallbackModels(SONAR_MODEL, null, this.getGlobalFallbackModels())];
 
-      if (body.stream === true) {
+      if (writer) {
         const { streamText } = await import("ai");
-        const result = await streamText({
-          model: openrouter.languageModel("perplexity/sonar-pro"),
-          prompt: prompt,
-        });
-
-        const streamId = "chatcmpl-" + Date.now().toString(36);
-        const encoder = new TextEncoder();
-        controller!.enqueue(encoder.encode(formatStreamingData("", streamId)));
+        writer.content("");
 
         try {
-          for await (const delta of result.textStream) {
-            controller!.enqueue(encoder.encode(formatStreamingData(delta, streamId)));
+          for (let attempt = 0; attempt < models.length; attempt++) {
+            writer.model = models[attempt];
+            const result = streamText({
+              model: openrouter.languageModel(models[attempt]),
+              messages,
+              ...sampling,
+              abortSignal: signal,
+            });
+
+            let streamed = false;
+            let failure: unknown = null;
+            for await (const part of result.fullStream) {
+              if (signal?.aborted) {
+                break;
+              }
+              if (part.type === "text-delta") {
+                streamed = true;
+                writer.content(part.textDelta);
+              } else if (part.type === "error") {
+                if (streamed || attempt === models.length - 1 || !isRetryableModelError(part.error)) {
+                  throw part.error;
+                }
+                failure = part.error;
+                break;
+              }
+            }
+            if (!failure || signal?.aborted) {
+              // A disconnected client can no longer receive the closing chunks
+              if (!signal?.aborted) {
+                writer.finish("stop");
+                writer.usage(addUsage(emptyUsage(), await result.usage));
+                writer.done();
+              }
+              break;
+            }
+            console.warn(`Model ${models[attempt]} failed, falling back to ${models[attempt + 1]}:`, failure);
+            writer.metadata({ fallback: { from: models[attempt], to: models[attempt + 1] } });
           }
-          controller!.enqueue(encoder.encode(formatStreamingData("", streamId, "stop")));
-          controller!.enqueue(encoder.encode("data: [DONE]\n\n"));
         } catch (error) {
           console.error("Error in sora stream:", error);
-        } finally {
-          controller!.close();
+          // Reported in the answer and closed like a failed agent run, so the client is not left waiting
+          if (!signal?.aborted) {
+            writer.content(`\n\n[Error: ${error instanceof Error ? error.message : String(error)}]`);
+            writer.finish("stop");
+            writer.done();
+          }
         }
 
-        // Return a dummy response for streaming case as the actual response is handled by controller
+        // Return a dummy response for streaming case as the actual response is handled by the stream writer
         return new Response(null, { status: 200 });
       } else {
         const { generateText } = await import("ai");
-        const result = await generateText({
-          model: openrouter.languageModel("perplexity/sonar-pro"),
-          prompt: prompt,
-        });
+        let result: Awaited<ReturnType<typeof generateText>> | null = null;
+        let model = SONAR_MODEL;
+        for (let attempt = 0; !result; attempt++) {
+          model = models[attempt];
+          try {
+            result = await generateText({
+              model: openrouter.languageModel(model),
+              messages,
+              ...sampling,
+            });
+          } catch (error) {
+            if (attempt === models.length - 1 || !isRetryableModelError(error)) {
+              throw error;
+            }
+            console.warn(`Model ${model} failed, falling back to ${models[attempt + 1]}:`, error);
+          }
+        }
 
         return new Response(
           JSON.stringify({
             id: "chatcmpl-" + Date.now(),
             object: "chat.completion",
             created: Math.floor(Date.now() / 1000),
-            model: "openai/gpt-4o",
+            model,
             choices: [
               {
                 index: 0,
@@ -806,6 +2229,7 @@ Please return ONLY the Project ID or "NONE" (without quotes), no other text.`;
                 finish_reason: "stop",
               },
             ],
+            usage: sumStepUsage(result),
           }),
           {
             headers: { "Content-Type": "application/json" },
@@ -825,56 +2249,40 @@ Please return ONLY the Project ID or "NONE" (without quotes), no other text.`;
 }
 
 /**
- * Format SSE streaming data in OpenAI format
+ * List the models to try for a request: the selected model followed by its fallbacks
  */
-function formatStreamingData(
-  content: string,
-  id: string,
-  finishReason: string | null = null
-): string {
-  const data = {
-    id,
-    object: "chat.completion.chunk",
-    created: Math.floor(Date.now() / 1000),
-    model: "openai/gpt-4o",
-    choices: [
-      {
-        index: 0,
-        delta: content ? { content } : {},
-        finish_reason: finishReason,
-      },
-    ],
-  };
-  return `data: ${JSON.stringify(data)}\n\n`;
+function getModelAttempts(context: AgentContext): { model: string; agent: Agent }[] {
+  return [{ model: context.model, agent: context.agent }, ...(context.fallbacks || [])];
 }
 
 /**
- * Handle tool events for streaming response
+ * Build the assistant message returned to the client, including any client tool calls
  */
-function handleToolEvent(
-  eventType: string,
-  part: any,
-  streamId: string,
-  showToolEvents: boolean = false
-): string | null {
-  if (!showToolEvents) {
-    return null;
-  }
-
-  let eventData = "";
-  switch (eventType) {
-    case "tool-call":
-      eventData = `\n[Tool Call: ${part.toolName}]\n`;
-      break;
-    case "tool-call-streaming-start":
-      eventData = `\n[Tool Execution Started]\n`;
-      break;
-    case "tool-result":
-      eventData = `\n[Tool Result: ${JSON.stringify(part.result).substring(0, 200)}...]\n`;
-      break;
-    default:
-      return null;
+function createAssistantMessage(text: string, toolCalls: ReturnType<typeof formatToolCall>[]): Message {
+  if (toolCalls.length === 0) {
+    return { role: "assistant", content: text };
   }
+  return { role: "assistant", content: text || null, tool_calls: toolCalls };
+}
 
-  return formatStreamingData(eventData, streamId);
+/**
+ * Build the error returned when the model's answer does not match the requested response_format
+ */
+function invalidModelResponse(detail: string) {
+  return {
+    message: `The model response did not match the requested response_format. ${detail}`,
+    type: "ai_validation_error",
+    code: "invalid_model_response",
+  };
+}
+
+/**
+ * Check whether the client asked for tool events via the `withToolEvent` header or body flag
+ */
+function hasToolEventFlag(request: Request, body: ChatRequestBody): boolean {
+  const header = request.headers.get("withToolEvent");
+  if (header !== null) {
+    return header !== "false" && header !== "0";
+  }
+  return body.with_tool_event === true;
 }
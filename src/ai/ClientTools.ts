@@ -0,0 +1,107 @@
+import type { ToolsInput } from "@mastra/core/agent";
+import { jsonSchemaToZod, type JSONSchema } from "../utils/json-schema";
+
+// Names of the tools executed on the server; client tools may not shadow them
+export const SERVER_TOOL_NAMES = ["HttpTool", "SchemaDetailsTool", "GraphQLQueryTool", "SchemaSearchTool"];
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// OpenAI function tool definition
+export interface ClientToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: JSONSchema;
+  };
+}
+
+// OpenAI tool_choice values
+export type ClientToolChoice =
+  | "auto"
+  | "none"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+// Tool choice in the format expected by the agent
+export type AgentToolChoice = "auto" | "none" | "required" | { type: "tool"; toolName: string };
+
+export interface ClientToolsConfig {
+  clientTools?: ToolsInput;
+  clientToolNames: string[];
+  toolChoice?: AgentToolChoice;
+}
+
+/**
+ * Build client-side tools from an OpenAI `tools` array
+ * Client tools have no execute function, so the agent stops and returns the call to the client
+ * Throws an Error with a user-facing message when the definition is invalid
+ */
+export function buildClientTools(tools: unknown, toolChoice: unknown): ClientToolsConfig {
+  const clientToolNames: string[] = [];
+  let clientTools: ToolsInput | undefined;
+
+  if (tools !== undefined && tools !== null) {
+    if (!Array.isArray(tools)) {
+      throw new Error("tools must be an array");
+    }
+    clientTools = {};
+    for (const tool of tools as ClientToolDefinition[]) {
+      if (tool?.type !== "function" || !tool.function?.name) {
+        throw new Error("Only function tools with a name are supported");
+      }
+      const { name, description, parameters } = tool.function;
+      if (!TOOL_NAME_PATTERN.test(name)) {
+        throw new Error(`Invalid tool name: ${name}`);
+      }
+      if (SERVER_TOOL_NAMES.includes(name) || clientToolNames.includes(name)) {
+        throw new Error(`Duplicate tool name: ${name}`);
+      }
+      clientToolNames.push(name);
+      clientTools[name] = {
+        description: description || "",
+        parameters: jsonSchemaToZod(parameters || { type: "object", properties: {} }),
+      };
+    }
+  }
+
+  return {
+    clientTools,
+    clientToolNames,
+    toolChoice: toAgentToolChoice(toolChoice, clientToolNames),
+  };
+}
+
+/**
+ * Convert an OpenAI tool_choice into the agent's tool choice format
+ */
+function toAgentToolChoice(toolChoice: unknown, clientToolNames: string[]): AgentToolChoice | undefined {
+  if (toolChoice === undefined || toolChoice === null) {
+    return undefined;
+  }
+  if (toolChoice === "auto" || toolChoice === "none" || toolChoice === "required") {
+    return toolChoice;
+  }
+  const name = (toolChoice as Extract<ClientToolChoice, { type: "function" }>)?.function?.name;
+  if (!name) {
+    throw new Error("Invalid tool_choice");
+  }
+  if (!clientToolNames.includes(name) && !SERVER_TOOL_NAMES.includes(name)) {
+    throw new Error(`tool_choice references unknown tool: ${name}`);
+  }
+  return { type: "tool", toolName: name };
+}
+
+/**
+ * Format a tool call in the OpenAI `tool_calls` shape
+ */
+export function formatToolCall(call: { toolCallId: string; toolName: string; args: unknown }) {
+  return {
+    id: call.toolCallId,
+    type: "function" as const,
+    function: {
+      name: call.toolName,
+      arguments: typeof call.args === "string" ? call.args : JSON.stringify(call.args ?? {}),
+    },
+  };
+}
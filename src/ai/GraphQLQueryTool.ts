@@ -0,0 +1,55 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { handleGraphQLQuery } from "../utils/tool-handlers";
+
+// 可查询的remoteSchema，多项目会话中带有所属项目
+export interface QueryableRemoteSchema {
+  id: string;
+  project?: { id: string; name: string };
+}
+
+// 创建GraphQL查询工具，只能查询当前会话的remoteSchema；查询先根据存储的schema校验，通过后才经网关发送
+export const createGraphQLQueryTool = (remoteSchemas: QueryableRemoteSchema[], projectId: string | null) => createTool({
+  id: "graphql-query",
+  description: "Validate a GraphQL operation against a remote schema and execute it on that schema's project. Invalid operations are not sent; their validation errors are returned instead",
+  inputSchema: z.object({
+    remoteSchemaId: z.string().describe("The remoteSchema ID the operation is written against"),
+    query: z.string().describe("The GraphQL query or mutation document"),
+    variables: z.record(z.any()).optional().describe("Values for the variables declared by the operation"),
+    operationName: z.string().optional().describe("The operation to execute when the document contains several"),
+  }),
+  execute: async ({ context }, options) => {
+    try {
+      const remoteSchema = remoteSchemas.find((schema) => schema.id === context.remoteSchemaId);
+      const remoteSchemaProjectId = remoteSchema?.project?.id || projectId;
+      if (!remoteSchema || !remoteSchemaProjectId) {
+        return {
+          success: false,
+          error: `remoteSchema with ID ${context.remoteSchemaId} is not available in this conversation`
+        };
+      }
+
+      const result = await handleGraphQLQuery({ ...context, projectId: remoteSchemaProjectId, signal: options?.abortSignal });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          ...(result.validationErrors ? { validationErrors: result.validationErrors } : {}),
+          ...(result.response !== undefined ? { data: result.response } : {})
+        };
+      }
+
+      return {
+        success: true,
+        data: result.response
+      };
+    } catch (error) {
+      console.error('Error in GraphQLQueryTool:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
@@ -39,13 +39,14 @@ function generateCacheKey(url: string, method: string, headers: Record<string, s
   return `http_cache_${Buffer.from(JSON.stringify(requestData)).toString('base64')}`;
 }
 
-export const handleHTTPRequest = async ({ url, method, headers = {}, body, params, env }: {
+export const handleHTTPRequest = async ({ url, method, headers = {}, body, params, env, signal }: {
   url: string;
   method: string;
   headers?: Record<string, string>;
   body?: any;
   params?: Record<string, string>;
   env?: any;
+  signal?: AbortSignal;
 }): Promise<HttpResponse> => {
   try {
     // Extract parameters
@@ -72,10 +73,12 @@ export const handleHTTPRequest = async ({ url, method, headers = {}, body, param
             },
             data: body,
             params,
-            signal: AbortSignal.timeout(10000)
+            signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(10000)]) : AbortSignal.timeout(10000)
           });
         }, {
-          retries: 3
+          retries: 3,
+          // 客户端断开时停止重试
+          signal
         });
 
         // console.log(JSON.stringify(response.data), 'HTTP RES');
@@ -130,10 +133,10 @@ export const HttpTool = createTool({
     body: z.any().optional().describe("The request body. For GraphQL: {query: 'query{...}', variables: {...}, operationName: 'OptionalName'}"),
     params: z.record(z.any()).optional().describe("URL query parameters"),
   }),
-  execute: async ({ context }) => {
+  execute: async ({ context }, options) => {
     try {
       console.log(context, 'context');
-      const result = await handleHTTPRequest(context);
+      const result = await handleHTTPRequest({ ...context, signal: options?.abortSignal });
 
       if (result.error === true) {
         throw new Error(result.message);
@@ -145,6 +148,7 @@ export const HttpTool = createTool({
     } catch (error) {
       console.error('HTTP Tool Error:', error);
       return {
+        error: true,
         data: (error as Error)?.message || "HTTP Tool Error",
       };
     }
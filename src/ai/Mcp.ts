@@ -8,7 +8,18 @@ import {
   ListPromptsRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { handleSchemaDetails, handleListSchemas } from "../utils/tool-handlers";
+import {
+  handleSchemaDetails,
+  handleListSchemas,
+  handleGraphQLQuery,
+  handleSearchSchema,
+  DEFAULT_TYPE_EXPANSION_DEPTH,
+  MAX_TYPE_EXPANSION_DEPTH,
+  DEFAULT_SCHEMA_DETAILS_MAX_SIZE,
+  MIN_SCHEMA_DETAILS_MAX_SIZE,
+  MAX_SCHEMA_DETAILS_MAX_SIZE,
+} from "../utils/tool-handlers";
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from "../utils/schema-search";
 import { handleHTTPRequest } from "./HttpTool";
 
 type Bindings = Env;
@@ -67,9 +78,29 @@ export class MyMCP extends McpAgent<Bindings, State, Props> {
               required: [],
             },
           },
+          {
+            name: "search_schema",
+            description: "Search the fields, arguments and types of all GraphQL schemas of the project by keyword. Matching is fuzzy and results are ranked; each match carries the remoteSchemaId to use with schema_details and graphql_query",
+            inputSchema: {
+              type: "object",
+              properties: {
+                query: {
+                  type: "string",
+                  description: "Keywords describing the data you need, e.g. 'user orders' or 'token price'",
+                },
+                limit: {
+                  type: "integer",
+                  minimum: 1,
+                  maximum: MAX_SEARCH_LIMIT,
+                  description: `Maximum number of matches to return (default ${DEFAULT_SEARCH_LIMIT})`,
+                },
+              },
+              required: ["query"],
+            },
+          },
           {
             name: "schema_details",
-            description: "Get detailed information about schema fields, including arguments, input and output types",
+            description: "Get detailed information about schema fields, including arguments, input and output types. Nested types are expanded recursively, including interface implementers and union members (possibleTypes). A type that is not expanded carries omitted: \"circular\", \"duplicate\" (expanded earlier in the result) or \"maxDepth\"",
             inputSchema: {
               type: "object",
               properties: {
@@ -84,10 +115,48 @@ export class MyMCP extends McpAgent<Bindings, State, Props> {
                   },
                   description: "List of field names to get details for (can be query or mutation fields)",
                 },
+                maxDepth: {
+                  type: "integer",
+                  minimum: 1,
+                  maximum: MAX_TYPE_EXPANSION_DEPTH,
+                  description: `How many levels of nested types to expand (default ${DEFAULT_TYPE_EXPANSION_DEPTH})`,
+                },
+                maxSize: {
+                  type: "integer",
+                  minimum: MIN_SCHEMA_DETAILS_MAX_SIZE,
+                  maximum: MAX_SCHEMA_DETAILS_MAX_SIZE,
+                  description: `Size limit of the result in JSON characters (default ${DEFAULT_SCHEMA_DETAILS_MAX_SIZE}); larger results are expanded less deeply`,
+                },
               },
               required: ["queryFields"],
             },
           },
+          {
+            name: "graphql_query",
+            description: "Validate a GraphQL operation against a remote schema and execute it on that schema's endpoint. Invalid operations are not sent; their validation errors are returned instead",
+            inputSchema: {
+              type: "object",
+              properties: {
+                remoteSchemaId: {
+                  type: "string",
+                  description: "The remoteSchema ID the operation is written against",
+                },
+                query: {
+                  type: "string",
+                  description: "The GraphQL query or mutation document",
+                },
+                variables: {
+                  type: "object",
+                  description: "Values for the variables declared by the operation",
+                },
+                operationName: {
+                  type: "string",
+                  description: "The operation to execute when the document contains several",
+                },
+              },
+              required: ["remoteSchemaId", "query"],
+            },
+          },
           {
             name: "http_request",
             description: "Send HTTP requests to external APIs, including GraphQL endpoints",
@@ -175,6 +244,41 @@ export class MyMCP extends McpAgent<Bindings, State, Props> {
             };
           }
 
+        case "search_schema":
+          try {
+            // Search all remote schemas of the project
+            const result = await handleSearchSchema({
+              projectId,
+              query: args.query as string,
+              limit: typeof args.limit === "number" ? args.limit : undefined,
+              env: this.env,
+            });
+
+            if (!result.success) {
+              return {
+                content: [
+                  { type: "text", text: `Failed to search schemas: ${result.error}` },
+                ],
+              };
+            }
+
+            return {
+              content: [
+                { type: "text", text: JSON.stringify(result.matches, null, 2) },
+              ],
+            };
+          } catch (error) {
+            console.error("SearchSchema error:", error);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Failed to search schemas: ${error instanceof Error ? error.message : String(error)}`,
+                },
+              ],
+            };
+          }
+
         case "schema_details":
           try {
             // Handle schema details using common tool
@@ -182,6 +286,8 @@ export class MyMCP extends McpAgent<Bindings, State, Props> {
               remoteSchemaId: args.remoteSchemaId as string | undefined,
               marketplaceId: "",
               queryFields: Array.isArray(args.queryFields) ? args.queryFields : [],
+              maxDepth: typeof args.maxDepth === "number" ? args.maxDepth : undefined,
+              maxSize: typeof args.maxSize === "number" ? args.maxSize : undefined,
               env: this.env,
             });
 
@@ -199,6 +305,14 @@ export class MyMCP extends McpAgent<Bindings, State, Props> {
                   type: "text",
                   text: JSON.stringify(result.fieldDetails, null, 2),
                 },
+                ...(result.omittedFields
+                  ? [
+                      {
+                        type: "text",
+                        text: `The output size limit was reached, so nested types were not expanded and these fields were omitted: ${result.omittedFields.join(", ")}. Request them separately.`,
+                      },
+                    ]
+                  : []),
               ],
             };
           } catch (error) {
@@ -213,6 +327,48 @@ export class MyMCP extends McpAgent<Bindings, State, Props> {
             };
           }
 
+        case "graphql_query":
+          try {
+            // Validate the operation against the stored schema and execute it only when valid
+            // Only schemas of the project this MCP session belongs to can be queried
+            const result = await handleGraphQLQuery({
+              projectId: this.props.projectId || "",
+              remoteSchemaId: args.remoteSchemaId as string,
+              query: args.query as string,
+              variables: args.variables as Record<string, any> | undefined,
+              operationName: args.operationName as string | undefined,
+              env: this.env,
+            });
+
+            if (!result.success) {
+              const details = result.validationErrors || result.response;
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `${result.error}${details ? `\n\n${JSON.stringify(details, null, 2)}` : ""}`,
+                  },
+                ],
+              };
+            }
+
+            return {
+              content: [
+                { type: "text", text: JSON.stringify(result.response, null, 2) },
+              ],
+            };
+          } catch (error) {
+            console.error("GraphQL query error:", error);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `GraphQL query failed: ${error instanceof Error ? error.message : String(error)}`,
+                },
+              ],
+            };
+          }
+
         case "http_request":
           try {
             // Handle HTTP request using common tool
@@ -1,16 +1,25 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { handleSchemaDetails } from "../utils/tool-handlers";
+import {
+  handleSchemaDetails,
+  DEFAULT_TYPE_EXPANSION_DEPTH,
+  MAX_TYPE_EXPANSION_DEPTH,
+  DEFAULT_SCHEMA_DETAILS_MAX_SIZE,
+  MIN_SCHEMA_DETAILS_MAX_SIZE,
+  MAX_SCHEMA_DETAILS_MAX_SIZE,
+} from "../utils/tool-handlers";
 
 // 创建Schema详情工具
 export const SchemaDetailsTool = createTool({
   id: "schema-details",
-  description: "Fetch GraphQL schema details for a specific schema",
+  description: "Fetch GraphQL schema details for a specific schema. Nested object, interface, union and input types are expanded recursively, including interface implementers and union members (possibleTypes) for inline fragments. A type that is not expanded carries omitted: \"circular\" (it contains itself), \"duplicate\" (expanded earlier in the result) or \"maxDepth\"",
   inputSchema: z.object({
     remoteSchemaId: z.string().optional().describe("The remoteSchema ID to fetch schema details for"),
     marketplaceId: z.string().optional().describe("The marketplace ID to fetch schema details for"),
     queryFields: z.array(z.string()).optional().describe("List of field names to get details for (can be query or mutation fields)"),
     mutationFields: z.array(z.string()).optional().describe("List of mutation field names to get details for (deprecated, use queryFields for both)"),
+    maxDepth: z.number().int().min(1).max(MAX_TYPE_EXPANSION_DEPTH).optional().describe(`How many levels of nested types to expand (default ${DEFAULT_TYPE_EXPANSION_DEPTH}). Increase it for types marked omitted: "maxDepth"`),
+    maxSize: z.number().int().min(MIN_SCHEMA_DETAILS_MAX_SIZE).max(MAX_SCHEMA_DETAILS_MAX_SIZE).optional().describe(`Size limit of the result in JSON characters (default ${DEFAULT_SCHEMA_DETAILS_MAX_SIZE}). Larger results are expanded less deeply; the depth used is returned as expansionDepth`),
   }).refine(data => data.remoteSchemaId || data.marketplaceId, {
     message: "Either remoteSchemaId or marketplaceId must be provided",
     path: ["remoteSchemaId"]
@@ -18,7 +27,7 @@ export const SchemaDetailsTool = createTool({
   execute: async ({ context }) => {
     // console.log('SchemaDetailsTool execute', context);
     try {
-      const { remoteSchemaId, marketplaceId, queryFields = [], mutationFields = [] } = context;
+      const { remoteSchemaId, marketplaceId, queryFields = [], mutationFields = [], maxDepth, maxSize } = context;
       
       // 合并查询字段
       const allFields = [...new Set([...queryFields, ...mutationFields])];
@@ -27,7 +36,9 @@ export const SchemaDetailsTool = createTool({
       const result = await handleSchemaDetails({
         remoteSchemaId,
         marketplaceId,
-        queryFields: allFields
+        queryFields: allFields,
+        maxDepth,
+        maxSize
       });
       
       if (!result.success) {
@@ -42,7 +53,9 @@ export const SchemaDetailsTool = createTool({
         data: {
           sourceType: marketplaceId ? 'marketplace' : 'remoteSchema',
           sourceId: marketplaceId || remoteSchemaId,
-          fields: result.fieldDetails
+          fields: result.fieldDetails,
+          expansionDepth: result.expansionDepth,
+          ...(result.omittedFields ? { omittedFields: result.omittedFields } : {})
         }
       };
     } catch (error) {
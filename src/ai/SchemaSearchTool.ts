@@ -0,0 +1,30 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { searchSchemas, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, type SearchableRemoteSchema } from "../utils/schema-search";
+
+// 创建Schema搜索工具，在当前会话可用的所有remoteSchema中搜索
+export const createSchemaSearchTool = (remoteSchemas: SearchableRemoteSchema[]) => createTool({
+  id: "schema-search",
+  description: "Search the fields, arguments and types of all available GraphQL schemas by keyword. Matching is fuzzy and results are ranked; each match carries the remoteSchemaId to use with SchemaDetailsTool and GraphQLQueryTool",
+  inputSchema: z.object({
+    query: z.string().describe("Keywords describing the data you need, e.g. 'user orders' or 'token price'"),
+    limit: z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional().describe(`Maximum number of matches to return (default ${DEFAULT_SEARCH_LIMIT})`),
+  }),
+  execute: async ({ context }) => {
+    try {
+      const matches = searchSchemas(remoteSchemas, context.query, context.limit);
+      return {
+        success: true,
+        data: {
+          matches
+        }
+      };
+    } catch (error) {
+      console.error('Error in SchemaSearchTool:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
@@ -3,11 +3,24 @@ import { cors } from "hono/cors";
 import { Chat } from "./ai/Chat";
 import { KVCache } from "./utils/kv";
 import { DB } from "./utils/db";
+import { refreshRemoteSchemas } from "./utils/schema-refresh";
 import type { UserSession } from "./storage/UserSession";
 import { MyMCP } from "./ai/mcp";
 
 // Import route handlers
-import { handleUnifiedChat, handleGlobalChat } from "./router/chat";
+import {
+  handleUnifiedChat,
+  handleGlobalChat,
+  handleConversations,
+  handleRuns,
+  handleChatStreamResume,
+  handleMessages,
+  handleResponses,
+  handleResponseRetrieve,
+  handleBatches,
+  handleChatSocket,
+} from "./router/chat";
+import { handleListModels, handleProjectModels } from "./router/models";
 import { ragValidator, handlePineconeRag, handleRagDoc } from "./router/rag";
 import { apiKeyMiddleware, rateLimitMiddleware } from "./router/middleware";
 
@@ -46,8 +59,9 @@ const app = new Hono<{
 // Apply CORS middleware
 app.use("*", cors({
   origin: "*",
-  allowMethods: ["POST", "OPTIONS"],
-  allowHeaders: ["Content-Type", "Authorization", "withToolEvent"],
+  allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+  allowHeaders: ["Content-Type", "Authorization", "withToolEvent", "Last-Event-ID", "x-api-key", "anthropic-version"],
+  exposeHeaders: ["X-Conversation-Id", "X-Stream-Id", "X-Routed-Project-Id", "X-Routing-Reason"],
   maxAge: 86400,
 }));
 
@@ -67,9 +81,44 @@ app.post("/preview/:projectId/v1/chat/completions", handleUnifiedChat);
 // Unified chat routes - handles both project and global chat
 app.use(":projectId/v1/chat/completions", rateLimitMiddleware);  
 app.post(":projectId/v1/chat/completions", handleUnifiedChat);
+app.get(":projectId/v1/chat/completions/:streamId", handleChatStreamResume);
+
+// WebSocket chat route; each user_message is billed when it runs
+app.get(":projectId/v1/chat/ws", handleChatSocket);
+
+// Anthropic Messages API compatible route
+app.use(":projectId/v1/messages", apiKeyMiddleware);
+app.post(":projectId/v1/messages", handleMessages);
+
+// OpenAI Responses API compatible routes
+app.use(":projectId/v1/responses", apiKeyMiddleware);
+app.post(":projectId/v1/responses", handleResponses);
+app.get(":projectId/v1/responses/:responseId", handleResponses);
+
+// Model listing routes
+app.get(":projectId/v1/models", handleProjectModels);
+
+// Batch routes; items are billed one by one when they run
+app.post(":projectId/v1/batches", handleBatches);
+app.get(":projectId/v1/batches", handleBatches);
+app.get(":projectId/v1/batches/:batchId", handleBatches);
+app.delete(":projectId/v1/batches/:batchId", handleBatches);
+app.post(":projectId/v1/batches/:batchId/cancel", handleBatches);
+app.get(":projectId/v1/batches/:batchId/results", handleBatches);
+
+// Conversation thread routes
+app.get(":projectId/v1/conversations", handleConversations);
+app.get(":projectId/v1/conversations/:conversationId", handleConversations);
+app.delete(":projectId/v1/conversations/:conversationId", handleConversations);
+
+// Agent run records for chargeback reports
+app.get(":projectId/v1/runs", handleRuns);
 
 // Global chat route (without projectId)
+app.get("/v1/models", handleListModels);
 app.post("/v1/chat/completions", handleGlobalChat);
+app.get("/v1/chat/completions/:streamId", handleGlobalChat);
+app.get("/v1/responses/:responseId", handleResponseRetrieve);
 
 // RAG routes
 app.post("/v1/rag/pinecone", ragValidator, handlePineconeRag);
@@ -99,4 +148,10 @@ app.mount("/", (req, env, ctx) => {
 
 export default {
   fetch: app.fetch.bind(app),
+  // Cron trigger: re-introspect remote schemas and record upstream changes
+  scheduled: (controller: ScheduledController, env: Env, ctx: ExecutionContext) => {
+    DB.initialize(env.DATABASE_URL);
+    KVCache.initialize(env.CHAT_CACHE);
+    ctx.waitUntil(refreshRemoteSchemas());
+  },
 };
@@ -1,6 +1,10 @@
 import { Hono, type Context } from "hono";
 import { DB } from "../utils/db";
-import { createErrorResponse } from "../utils/stream";
+import { createErrorResponse, getStreamProjectId } from "../utils/stream";
+import { parseProjectModel } from "../utils/models";
+import { getResponseProjectId } from "../utils/responses";
+import { rateLimitMiddleware, resolveApiKeyBilling } from "./middleware";
+import type { UserSession } from "../storage/UserSession";
 
 // Worker environment interface
 interface Env {
@@ -12,7 +16,7 @@ interface Env {
   Chat: DurableObjectNamespace;
   POLAR_ACCESS_TOKEN?: string;
   GATEWAY_PROJECT_ID: string;
-  USERSESSION: DurableObjectNamespace;
+  USERSESSION: DurableObjectNamespace<UserSession>;
 }
 
 type Variables = {
@@ -45,10 +49,18 @@ export const handleUnifiedChat = async (c: Context<{ Bindings: Env; Variables: V
   }
 };
 
+// Billing headers trusted by the Chat DO; only the worker may set them
+const BILLING_HEADERS = ["X-Billing-Org-Id", "X-Billing-Cost"];
+
 /**
  * Project chat logic
  */
-const handleProjectChatLogic = async (c: Context<{ Bindings: Env; Variables: Variables }>, projectId: string) => {
+const handleProjectChatLogic = async (
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  projectId: string,
+  body: BodyInit | null = c.req.raw.body,
+  headers: Record<string, string> = {}
+) => {
   try {
     const chatId = c.env.Chat.idFromName(projectId);
     const chatDO = c.env.Chat.get(chatId);
@@ -56,9 +68,13 @@ const handleProjectChatLogic = async (c: Context<{ Bindings: Env; Variables: Var
     const newRequest = new Request(c.req.url, {
       method: c.req.method,
       headers: c.req.raw.headers,
-      body: c.req.raw.body,
+      body,
     });
+    BILLING_HEADERS.forEach((name) => newRequest.headers.delete(name));
     newRequest.headers.set("X-Project-Id", projectId);
+    for (const [name, value] of Object.entries(headers)) {
+      newRequest.headers.set(name, value);
+    }
     return chatDO.fetch(newRequest);
     // console.log('response--------', response)
     // return new Response(response.body, response);
@@ -83,6 +99,48 @@ const handleProjectChatLogic = async (c: Context<{ Bindings: Env; Variables: Var
  */
 const handleGlobalChatLogic = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
   try {
+    // A published project selected as the model is served by its own Chat DO without project selection
+    let body: BodyInit | null = c.req.raw.body;
+    if (c.req.method === "POST") {
+      body = await c.req.text();
+      let model: unknown;
+      try {
+        model = JSON.parse(body)?.model;
+      } catch {
+        // Invalid JSON is reported by the Chat DO
+      }
+      const projectId = parseProjectModel(model);
+      if (projectId) {
+        const projects = await DB.getPublishedProjects();
+        if (!projects.some((project) => project.id === projectId)) {
+          return c.json({
+            error: {
+              message: `The model ${model} does not exist`,
+              type: "invalid_request_error",
+              code: "model_not_found",
+            },
+          }, 404);
+        }
+        // Rate limited like the project's own chat completions route
+        const limited = await rateLimitMiddleware(c, async () => {
+          c.res = await handleProjectChatLogic(c, projectId, body);
+        });
+        if (limited) {
+          return limited;
+        }
+        const response = new Response(c.res.body, c.res);
+        response.headers.set("X-Routed-Project-Id", projectId);
+        response.headers.set("X-Routing-Reason", "model");
+        return response;
+      }
+    }
+
+    // Streams served by a project's Chat DO are resumed there
+    const streamProjectId = c.req.param("streamId") ? getStreamProjectId(c.req.param("streamId")!) : null;
+    if (streamProjectId) {
+      return await handleProjectChatLogic(c, streamProjectId);
+    }
+
     // Use a special project ID for global chat
     const globalChatId = "global-chat-router";
     const chatId = c.env.Chat.idFromName(globalChatId);
@@ -92,8 +150,9 @@ const handleGlobalChatLogic = async (c: Context<{ Bindings: Env; Variables: Vari
     const newRequest = new Request(c.req.url, {
       method: c.req.method,
       headers: c.req.raw.headers,
-      body: c.req.raw.body,  // Pass original body stream directly
+      body,
     });
+    BILLING_HEADERS.forEach((name) => newRequest.headers.delete(name));
 
     // Add special header to indicate this is global chat
     newRequest.headers.set("X-Project-Id", globalChatId);
@@ -119,6 +178,112 @@ export const handleProjectChat = async (c: Context<{ Bindings: Env; Variables: V
   return await handleProjectChatLogic(c, projectId);
 };
 
+/**
+ * Conversation thread handler - list, fetch and delete threads stored in the project's Chat DO
+ */
+export const handleConversations = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  const projectId = c.req.param("projectId");
+  return await handleProjectChatLogic(c, projectId);
+};
+
+/**
+ * Run record handler - lists the caller's agent runs stored in the project's Chat DO
+ */
+export const handleRuns = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  const projectId = c.req.param("projectId");
+  return await handleProjectChatLogic(c, projectId);
+};
+
+/**
+ * Stream resume handler - replays a chat completion stream buffered in the project's Chat DO
+ */
+export const handleChatStreamResume = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  const projectId = c.req.param("projectId");
+  return await handleProjectChatLogic(c, projectId);
+};
+
+/**
+ * Anthropic Messages API handler - answered by the project's Chat DO in the Anthropic format
+ */
+export const handleMessages = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  const projectId = c.req.param("projectId");
+  return await handleProjectChatLogic(c, projectId);
+};
+
+/**
+ * Responses API handler - answered by the project's Chat DO, which also stores and returns the responses
+ */
+export const handleResponses = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  const projectId = c.req.param("projectId");
+  return await handleProjectChatLogic(c, projectId);
+};
+
+/**
+ * Stored response handler - the project is read from the response ID, so the route needs no project
+ */
+export const handleResponseRetrieve = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  const responseId = c.req.param("responseId");
+  const projectId = getResponseProjectId(responseId);
+  if (!projectId) {
+    return c.json({
+      error: {
+        message: `Response with id '${responseId}' not found.`,
+        type: "invalid_request_error",
+        code: "response_not_found",
+      },
+    }, 404);
+  }
+  return await handleProjectChatLogic(c, projectId);
+};
+
+/**
+ * Batch handler - queues JSONL batches in the project's Chat DO and serves their progress and results
+ * Creating a batch only checks the API key; the Chat DO charges each item when it runs
+ */
+export const handleBatches = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  const projectId = c.req.param("projectId");
+  if (c.req.method === "POST" && !c.req.param("batchId")) {
+    const billing = await resolveApiKeyBilling(c);
+    if (billing instanceof Response) {
+      return billing;
+    }
+    // Set here so clients cannot supply their own billing headers
+    return await handleProjectChatLogic(c, projectId, c.req.raw.body, {
+      "X-Billing-Org-Id": billing.orgId,
+      "X-Billing-Cost": String(billing.cost),
+    });
+  }
+  return await handleProjectChatLogic(c, projectId);
+};
+
+/**
+ * WebSocket chat handler - upgrades to a WebSocket served by the project's Chat DO
+ * Browsers cannot set headers on WebSocket connections, so the API key may also be passed as `api_key`
+ */
+export const handleChatSocket = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
+  if (c.req.header("Upgrade")?.toLowerCase() !== "websocket") {
+    return c.json({
+      error: {
+        message: "Expected a WebSocket upgrade request",
+        type: "invalid_request_error",
+        code: "upgrade_required",
+      },
+    }, 426);
+  }
+  const projectId = c.req.param("projectId");
+  const apiKey = c.req.query("api_key");
+  const billing = await resolveApiKeyBilling(c, apiKey);
+  if (billing instanceof Response) {
+    return billing;
+  }
+  // Messages are charged one by one in the Chat DO, so the upgrade itself is not billed
+  return await handleProjectChatLogic(c, projectId, null, {
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    "X-Billing-Org-Id": billing.orgId,
+    "X-Billing-Cost": String(billing.cost),
+  });
+};
+
 export const handleGlobalChat = async (c: Context<{ Bindings: Env; Variables: Variables }>) => {
   return await handleGlobalChatLogic(c);
 }; 
\ No newline at end of file
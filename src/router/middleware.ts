@@ -1,5 +1,5 @@
 import { type Context, type Next } from "hono";
-import { getApiKeyManager } from "../utils/apikey";
+import { BILLING_PROJECT_SLUG, getApiKeyManager } from "../utils/apikey";
 import type { UserSession } from "../storage/UserSession";
 import { updateRateLimit, setRateLimitHeaders, shouldSkipCounting, checkRateLimit } from "../middleware/ratelimit";
 import type { RateLimitOptions } from "../middleware/ratelimit";
@@ -20,6 +20,89 @@ interface Env {
   USERSESSION: DurableObjectNamespace<UserSession>;
 }
 
+// 按API Key计费所需的组织和单次请求费用
+export interface ApiKeyBilling {
+  orgId: string;
+  cost: number;
+}
+
+/**
+ * 校验API Key并查询计费信息（组织和项目单价），不扣费
+ * 未传入apiKey时从请求头读取；校验失败时返回错误响应
+ */
+export const resolveApiKeyBilling = async <E extends { Bindings: Env }>(
+  c: Context<E>,
+  apiKey?: string
+): Promise<ApiKeyBilling | Response> => {
+  // Extract token from Authorization header
+  const authHeader = c.req.header("Authorization") || "";
+  let token = apiKey || "";
+  if (!token && authHeader.startsWith("Bearer ")) {
+    token = authHeader.substring(7);
+  }
+  // Anthropic SDK clients send the key in the x-api-key header
+  if (!token) {
+    token = c.req.header("x-api-key") || "";
+  }
+  if (!token) {
+    return c.json(
+      {
+        error: {
+          message: "Authentication error: Missing API Key",
+          type: "authentication_error",
+          code: "invalid_parameters",
+        },
+      },
+      401
+    );
+  }
+  const projectId = c.req.param("projectId")!
+  if (!projectId) {
+    return c.json(
+      {
+        error: {
+          message: "Missing Project ID",
+          type: "authentication_error",
+          code: "invalid_parameters",
+        },
+      },
+      400
+    );
+  }
+  const projectPrice = await KVCache.wrap(
+    `project_price_${projectId}`,
+    async () => {
+      const projectPrice = await DB.query(
+        `SELECT pricing->>'price' as price FROM projects WHERE id = $1`,
+        [projectId]
+      );
+      return projectPrice?.rows[0]?.price;
+    },
+    {
+      ttl: 60,
+    }
+  );
+
+
+  const apikey = token
+  const userSessionId = c.env.USERSESSION.idFromName(apikey);
+  const userSessionDO = c.env.USERSESSION.get(userSessionId);
+  const { orgId } = await userSessionDO.init({ apiKey: apikey });
+  if (!orgId) {
+    return c.json(
+      {
+        error: {
+          message: "Authentication error: Unauthorized API Key",
+          type: "authentication_error",
+          code: "invalid_parameters",
+        },
+      },
+      401
+    );
+  }
+  return { orgId, cost: projectPrice || 1 };
+};
+
 /**
  * API Key认证中间件
  */
@@ -42,75 +125,15 @@ export const apiKeyMiddleware = async (c: Context<{ Bindings: Env }>, next: Next
   // 如果超过限制，则根据apikey进行验证
   // if (!rateLimitResult.success) {
 
-    // Extract token from Authorization header
-    const authHeader = c.req.header("Authorization") || "";
-    let token = "";
-    if (authHeader.startsWith("Bearer ")) {
-      token = authHeader.substring(7);
-    }
-    if (!token) {
-      return c.json(
-        {
-          error: {
-            message: "Authentication error: Missing API Key",
-            type: "authentication_error",
-            code: "invalid_parameters",
-          },
-        },
-        401
-      );
-    }
-    const projectId = c.req.param("projectId")!
-    if (!projectId) {
-      return c.json(
-        {
-          error: {
-            message: "Missing Project ID",
-            type: "authentication_error",
-            code: "invalid_parameters",
-          },
-        },
-        400
-      );
-    }
-    const projectPrice = await KVCache.wrap(
-      `project_price_${projectId}`,
-      async () => {
-        const projectPrice = await DB.query(
-          `SELECT pricing->>'price' as price FROM projects WHERE id = $1`,
-          [projectId]
-        );
-        return projectPrice?.rows[0]?.price;
-      },
-      {
-        ttl: 60,
-      }
-    );
-
-
-    const apikey = token
-    const userSessionId = c.env.USERSESSION.idFromName(apikey);
-    const userSessionDO = c.env.USERSESSION.get(userSessionId);
-    const { orgId } = await userSessionDO.init({ apiKey: apikey });
-    if (!orgId) {
-      return c.json(
-        {
-          error: {
-            message: "Authentication error: Unauthorized API Key",
-            type: "authentication_error",
-            code: "invalid_parameters",
-          },
-        },
-        401
-      );
+    const billing = await resolveApiKeyBilling(c);
+    if (billing instanceof Response) {
+      return billing;
     }
-    const cost = projectPrice || 1;
-    // const cost = 1;
     const apiKeyManager = getApiKeyManager(c.env as any);
     const result = await apiKeyManager.verifyKey({
-      resourceId: orgId,
-      cost,
-      projectSlug: 'quicksilver',
+      resourceId: billing.orgId,
+      cost: billing.cost,
+      projectSlug: BILLING_PROJECT_SLUG,
     });
     if (!result.success) {
       return c.json(
@@ -133,7 +156,7 @@ export const apiKeyMiddleware = async (c: Context<{ Bindings: Env }>, next: Next
   // }
 }; 
 
-export const rateLimitMiddleware = async (c: Context<{ Bindings: Env }>, next: Next) => {
+export const rateLimitMiddleware = async <E extends { Bindings: Pick<Env, "CHAT_CACHE"> }>(c: Context<E>, next: Next) => {
   const kvStore = createKVStore(c.env.CHAT_CACHE as KVNamespace);
 
   const options: RateLimitOptions = {
@@ -0,0 +1,109 @@
+import { type Context } from "hono";
+import { DB } from "../utils/db";
+import { KVCache } from "../utils/kv";
+import { getAllowedModels, PROJECT_MODEL_PREFIX, type ModelInfo, type ProjectModelConfig } from "../utils/models";
+
+// Worker environment interface
+interface Env {
+  DATABASE_URL?: string;
+  CHAT_CACHE?: KVNamespace;
+  Chat: DurableObjectNamespace;
+}
+
+// Model entry in the OpenAI model list format
+interface ModelObject {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+  name: string;
+  description?: string;
+}
+
+const CACHE_TTL = 60;
+
+/**
+ * Describe a published project as a selectable model
+ */
+function toProjectModel(project: { id: string; name: string; description?: string | null }): ModelObject {
+  return {
+    id: `${PROJECT_MODEL_PREFIX}${project.id}`,
+    object: "model",
+    created: 0,
+    owned_by: "quicksilver",
+    name: project.name,
+    ...(project.description ? { description: project.description } : {}),
+  };
+}
+
+/**
+ * Describe a registered LLM in the model list format
+ */
+function toLLMModel(model: ModelInfo): ModelObject {
+  return {
+    id: model.id,
+    object: "model",
+    created: 0,
+    owned_by: model.id.split("/")[0],
+    name: model.name,
+  };
+}
+
+/**
+ * List published projects and the LLMs available to global chat
+ */
+export const handleListModels = async (c: Context<{ Bindings: Env }>) => {
+  try {
+    const projects = await DB.getPublishedProjects();
+    return c.json({
+      object: "list",
+      data: [...projects.map(toProjectModel), ...getAllowedModels(null).map(toLLMModel)],
+    });
+  } catch (error) {
+    console.error("Error listing models:", error);
+    return c.json(
+      {
+        error: {
+          message: "Failed to list models",
+          type: "server_error",
+          code: "processing_error",
+        },
+      },
+      500
+    );
+  }
+};
+
+/**
+ * List the project as a model together with the LLMs the project allows
+ */
+export const handleProjectModels = async (c: Context<{ Bindings: Env }>) => {
+  const projectId = c.req.param("projectId")!;
+  try {
+    const [projects, modelConfig] = await Promise.all([
+      DB.getPublishedProjects(),
+      KVCache.wrap(
+        `projectModelConfig-${projectId}`,
+        async () => (await DB.getProjectModelConfig(projectId)) as ProjectModelConfig | null,
+        { ttl: CACHE_TTL }
+      ),
+    ]);
+    const project = projects.find((item) => item.id === projectId);
+    return c.json({
+      object: "list",
+      data: [...(project ? [toProjectModel(project)] : []), ...getAllowedModels(modelConfig).map(toLLMModel)],
+    });
+  } catch (error) {
+    console.error("Error listing project models:", error);
+    return c.json(
+      {
+        error: {
+          message: "Failed to list models",
+          type: "server_error",
+          code: "processing_error",
+        },
+      },
+      500
+    );
+  }
+};
@@ -1,5 +1,7 @@
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import { createOpenAI } from "@ai-sdk/openai";
 import type { Context } from "hono";
+import { sumStepUsage } from "./usage";
 
 // Env interface for Cloudflare Workers
 interface Env {
@@ -17,6 +19,17 @@ export const getAI = (apiKey: string) => {
   });
 };
 
+// Embedding model used to index projects for global chat routing
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+
+export const getEmbeddingModel = (apiKey: string) => {
+  return createOpenAI({
+    apiKey,
+    baseURL:
+      "https://gateway.ai.cloudflare.com/v1/3f724e4b38a30ee9d189654b73a4e87e/quicksilver/openai",
+  }).embedding(EMBEDDING_MODEL);
+};
+
 export async function useSoraModel(c: Context<any>, requestBody: any): Promise<Response> {
   try {
     console.log('useSoraModel', c.env.OPENROUTER_API_KEY)
@@ -112,11 +125,7 @@ export async function useSoraModel(c: Context<any>, requestBody: any): Promise<R
             },
             finish_reason: 'stop'
           }],
-          usage: {
-            prompt_tokens: Math.round(prompt.length / 4),
-            completion_tokens: Math.round(result.text.length / 4),
-            total_tokens: Math.round((prompt.length + result.text.length) / 4)
-          }
+          usage: sumStepUsage(result)
         });
       }
     } else {
@@ -146,11 +155,7 @@ export async function useSoraModel(c: Context<any>, requestBody: any): Promise<R
           },
           finish_reason: 'stop'
         }],
-        usage: {
-          prompt_tokens: Math.round(prompt.length / 4),
-          completion_tokens: Math.round(result.text.length / 4),
-          total_tokens: Math.round((prompt.length + result.text.length) / 4)
-        }
+        usage: sumStepUsage(result)
       });
     }
   } catch (error) {
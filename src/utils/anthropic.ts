@@ -0,0 +1,314 @@
+/**
+ * Anthropic Messages API compatibility: request conversion, response conversion and streaming events
+ */
+import type { ChatRequestBody, Message, MessageContentPart } from "../ai/Chat";
+import { ChatStreamWriter, readErrorMessage, type ChatStreamOptions, type ChatStreamSink, type ToolCallDelta } from "./stream";
+import type { ChatUsage } from "./usage";
+
+// Content block of an Anthropic message
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string } }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content?: string | AnthropicContentBlock[]; is_error?: boolean }
+  | { type: "thinking"; thinking: string }
+  | { type: string; [key: string]: any };
+
+// Anthropic Messages API request body
+export interface AnthropicRequestBody {
+  model?: string;
+  max_tokens?: number;
+  system?: string | { type: "text"; text: string }[];
+  messages?: { role: "user" | "assistant"; content: string | AnthropicContentBlock[] }[];
+  tools?: { name: string; description?: string; input_schema?: Record<string, unknown> }[];
+  tool_choice?: { type: "auto" | "any" | "tool" | "none"; name?: string };
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  thinking?: { type: "enabled" | "disabled"; budget_tokens?: number };
+  conversation_id?: string;
+}
+
+const STOP_REASONS: Record<string, string> = {
+  stop: "end_turn",
+  tool_calls: "tool_use",
+  length: "max_tokens",
+};
+
+// Anthropic error types by HTTP status
+const ERROR_TYPES: Record<number, string> = {
+  400: "invalid_request_error",
+  401: "authentication_error",
+  403: "permission_error",
+  404: "not_found_error",
+  429: "rate_limit_error",
+};
+
+function toStopReason(finishReason: string | null | undefined): string {
+  return STOP_REASONS[finishReason || "stop"] || "end_turn";
+}
+
+function getBlockText(content: string | AnthropicContentBlock[] | undefined): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return (content || [])
+    .filter((block): block is { type: "text"; text: string } => block.type === "text")
+    .map((block) => block.text)
+    .join("\n");
+}
+
+/**
+ * Convert Anthropic messages to OpenAI messages
+ * Tool results become tool messages placed before the rest of the user turn, tool uses become tool calls
+ */
+function toOpenAIMessages(messages: NonNullable<AnthropicRequestBody["messages"]>): Message[] {
+  const result: Message[] = [];
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+    const parts: MessageContentPart[] = [];
+    const toolCalls: any[] = [];
+    for (const block of message.content) {
+      if (block.type === "text") {
+        parts.push({ type: "text", text: block.text });
+      } else if (block.type === "image") {
+        const source = block.source;
+        const url = source.type === "base64" ? `data:${source.media_type};base64,${source.data}` : source.url;
+        parts.push({ type: "image_url", image_url: { url } });
+      } else if (block.type === "tool_use") {
+        toolCalls.push({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      } else if (block.type === "tool_result") {
+        const text = getBlockText(block.content);
+        result.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `Error: ${text}` : text,
+        });
+      }
+      // Thinking blocks from earlier turns are not sent back to the model
+    }
+    if (toolCalls.length > 0) {
+      result.push({ role: "assistant", content: getBlockText(message.content) || null, tool_calls: toolCalls });
+    } else if (parts.length > 0) {
+      const textOnly = parts.every((part) => part.type === "text");
+      result.push({
+        role: message.role,
+        content: textOnly ? parts.map((part) => (part as { text: string }).text).join("\n") : parts,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert an Anthropic Messages API request into the OpenAI chat completion request handled by the agent
+ * Throws an Error with a user-facing message when the request is invalid
+ */
+export function fromAnthropicRequest(body: AnthropicRequestBody): ChatRequestBody {
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    throw new Error("messages: at least one message is required");
+  }
+  const system = typeof body.system === "string" ? body.system : getBlockText(body.system);
+  const choice = body.tool_choice;
+  return {
+    model: body.model,
+    max_tokens: body.max_tokens,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    stop: body.stop_sequences,
+    stream: body.stream === true,
+    conversation_id: body.conversation_id,
+    // Only requested thinking is returned, as Anthropic clients expect
+    include_reasoning: body.thinking?.type === "enabled",
+    messages: [...(system ? [{ role: "system" as const, content: system }] : []), ...toOpenAIMessages(body.messages)],
+    tools: body.tools?.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.input_schema || { type: "object", properties: {} },
+      },
+    })),
+    tool_choice: !choice
+      ? undefined
+      : choice.type === "any"
+        ? "required"
+        : choice.type === "tool"
+          ? { type: "function", function: { name: choice.name } }
+          : choice.type,
+  };
+}
+
+/**
+ * Convert a chat completion into an Anthropic message
+ */
+export function toAnthropicMessage(completion: any): Record<string, unknown> {
+  const choice = completion.choices?.[0] || {};
+  const message = choice.message || {};
+  const content: Record<string, unknown>[] = [];
+  if (message.reasoning_content) {
+    content.push({ type: "thinking", thinking: message.reasoning_content, signature: "" });
+  }
+  if (message.content) {
+    content.push({ type: "text", text: message.content });
+  }
+  for (const call of message.tool_calls || []) {
+    let input: unknown = {};
+    try {
+      input = JSON.parse(call.function?.arguments || "{}");
+    } catch {
+      // Arguments that are not valid JSON are returned as an empty input
+    }
+    content.push({ type: "tool_use", id: call.id, name: call.function?.name, input });
+  }
+  return {
+    id: completion.id,
+    type: "message",
+    role: "assistant",
+    model: completion.model,
+    content,
+    stop_reason: toStopReason(choice.finish_reason),
+    stop_sequence: null,
+    usage: {
+      input_tokens: completion.usage?.prompt_tokens || 0,
+      output_tokens: completion.usage?.completion_tokens || 0,
+    },
+  };
+}
+
+/**
+ * Convert an error response of the chat completion handler into the Anthropic error format
+ * Errors of streaming requests arrive as an SSE chunk and are returned as JSON, like the Anthropic API does
+ */
+export async function toAnthropicErrorResponse(response: Response): Promise<Response> {
+  const message = await readErrorMessage(response);
+  return new Response(
+    JSON.stringify({
+      type: "error",
+      error: { type: ERROR_TYPES[response.status] || "api_error", message },
+    }),
+    {
+      status: response.status,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * Writes Anthropic Messages API streaming events
+ * Text, thinking and tool use are written as content blocks; usage and the stop reason close the message
+ */
+export class AnthropicStreamWriter extends ChatStreamWriter {
+  private started = false;
+  private blockIndex = -1;
+  private blockType: string | null = null;
+  private stopReason = "end_turn";
+  private totalUsage: ChatUsage | null = null;
+
+  constructor(sink: ChatStreamSink, id: string, model: string, options: ChatStreamOptions = {}) {
+    super(sink, id, model, options);
+  }
+
+  private send(type: string, data: Record<string, unknown>): void {
+    this.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+  }
+
+  private start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.send("message_start", {
+      message: {
+        id: this.id,
+        type: "message",
+        role: "assistant",
+        model: this.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  }
+
+  private closeBlock(): void {
+    if (this.blockType) {
+      this.send("content_block_stop", { index: this.blockIndex });
+      this.blockType = null;
+    }
+  }
+
+  private openBlock(type: string, contentBlock: Record<string, unknown>): void {
+    this.start();
+    if (this.blockType === type && type !== "tool_use") {
+      return;
+    }
+    this.closeBlock();
+    this.blockIndex++;
+    this.blockType = type;
+    this.send("content_block_start", { index: this.blockIndex, content_block: contentBlock });
+  }
+
+  chunk(): void {
+    // Chat completion chunks have no Anthropic equivalent
+  }
+
+  content(text: string): void {
+    if (!text) {
+      return;
+    }
+    this.openBlock("text", { type: "text", text: "" });
+    this.send("content_block_delta", { index: this.blockIndex, delta: { type: "text_delta", text } });
+  }
+
+  reasoning(text: string): void {
+    if (!this.options.includeReasoning || !text) {
+      return;
+    }
+    this.openBlock("thinking", { type: "thinking", thinking: "" });
+    this.send("content_block_delta", { index: this.blockIndex, delta: { type: "thinking_delta", thinking: text } });
+  }
+
+  toolCall(_index: number, call: ToolCallDelta): void {
+    this.openBlock("tool_use", { type: "tool_use", id: call.id, name: call.function.name, input: {} });
+    this.send("content_block_delta", {
+      index: this.blockIndex,
+      delta: { type: "input_json_delta", partial_json: call.function.arguments },
+    });
+    this.closeBlock();
+  }
+
+  finish(finishReason: string): void {
+    this.stopReason = toStopReason(finishReason);
+  }
+
+  usage(usage: ChatUsage): void {
+    this.totalUsage = usage;
+  }
+
+  error(error: { message: string; type: string; code: string }): void {
+    this.send("error", { error: { type: "api_error", message: error.message } });
+  }
+
+  done(): void {
+    this.start();
+    this.closeBlock();
+    this.send("message_delta", {
+      delta: { stop_reason: this.stopReason, stop_sequence: null },
+      usage: {
+        input_tokens: this.totalUsage?.prompt_tokens || 0,
+        output_tokens: this.totalUsage?.completion_tokens || 0,
+      },
+    });
+    this.send("message_stop", {});
+  }
+}
@@ -381,6 +381,15 @@ export class ApiKeyManager {
     // }
 }
 
+// 计费使用的Polar项目标识
+export const BILLING_PROJECT_SLUG = 'quicksilver'
+
+// 解析worker传入的单次计费额度，非有限正数时返回null
+export const parseBillingCost = (value: string | null): number | null => {
+  const cost = Number(value)
+  return value !== null && Number.isFinite(cost) && cost > 0 ? cost : null
+}
+
 // 修改实例导出为工厂函数，在调用时传入env
 export const getApiKeyManager = (env: Env) => {
   return new ApiKeyManager({}, env)
@@ -0,0 +1,295 @@
+/**
+ * Batch chat completions: JSONL input parsing and batch progress stored in Durable Object storage
+ */
+import type { ChatRequestBody } from "../ai/Chat";
+
+export type BatchStatus = "in_progress" | "completed" | "cancelled";
+
+// Billing applied to each item when it runs
+export interface BatchBilling {
+  orgId: string;
+  cost: number;
+}
+
+// Batch object returned by the batch endpoints
+export interface Batch {
+  id: string;
+  object: "batch";
+  status: BatchStatus;
+  concurrency: number;
+  created_at: number;
+  completed_at: number | null;
+  cancelled_at: number | null;
+  request_counts: { total: number; completed: number; failed: number };
+}
+
+// Batch together with what is needed to run its items
+export interface StoredBatch {
+  batch: Batch;
+  ownerId: string;
+  projectId: string;
+  billing: BatchBilling;
+}
+
+// One chat completion request of a batch
+export interface BatchInput {
+  custom_id: string;
+  body: ChatRequestBody;
+}
+
+// Batch item with its outcome once it has run
+export interface BatchItem extends BatchInput {
+  index: number;
+  status: "pending" | "completed" | "failed";
+  // Set before the request runs, so an item interrupted by a restart is not charged twice
+  billed: boolean;
+  response?: { status_code: number; body: unknown };
+  error?: { code: string; message: string };
+}
+
+export const MAX_BATCH_ITEMS = 1000;
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+export const MAX_BATCH_CONCURRENCY = 8;
+// Durable Object storage values are limited to 128 KiB, so larger requests are rejected up front
+const MAX_LINE_LENGTH = 100_000;
+// Limits the memory held by one batch input while it is parsed
+const MAX_INPUT_LENGTH = 20_000_000;
+const ITEM_PAGE_SIZE = 100;
+// Durable Object storage writes and deletes at most 128 keys per call
+const WRITE_BATCH_SIZE = 128;
+const BATCH_PREFIX = "batch:";
+const ITEM_PREFIX = "batch_item:";
+
+/**
+ * Parse the JSONL input of a batch
+ * Each line is an OpenAI batch request: `{"custom_id": "...", "method": "POST", "url": "/v1/chat/completions", "body": {...}}`
+ * Throws an Error naming the offending line when the input is invalid
+ */
+export function parseBatchInput(text: string): BatchInput[] {
+  if (text.length > MAX_INPUT_LENGTH) {
+    throw new Error(`The batch input exceeds ${MAX_INPUT_LENGTH} characters`);
+  }
+  const inputs: BatchInput[] = [];
+  const customIds = new Set<string>();
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) {
+      continue;
+    }
+    const lineNumber = i + 1;
+    if (line.length > MAX_LINE_LENGTH) {
+      throw new Error(`line ${lineNumber}: request exceeds ${MAX_LINE_LENGTH} characters`);
+    }
+    let request: any;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      throw new Error(`line ${lineNumber}: invalid JSON`);
+    }
+    if (typeof request?.custom_id !== "string" || !request.custom_id) {
+      throw new Error(`line ${lineNumber}: custom_id is required`);
+    }
+    if (customIds.has(request.custom_id)) {
+      throw new Error(`line ${lineNumber}: duplicate custom_id '${request.custom_id}'`);
+    }
+    if (request.method !== undefined && request.method !== "POST") {
+      throw new Error(`line ${lineNumber}: method must be POST`);
+    }
+    if (request.url !== undefined && request.url !== "/v1/chat/completions") {
+      throw new Error(`line ${lineNumber}: url must be /v1/chat/completions`);
+    }
+    if (!request.body || typeof request.body !== "object" || Array.isArray(request.body)) {
+      throw new Error(`line ${lineNumber}: body must be a chat completion request`);
+    }
+    if (request.body.conversation_id !== undefined) {
+      throw new Error(`line ${lineNumber}: conversation_id is not supported in batches`);
+    }
+    customIds.add(request.custom_id);
+    // Items are answered as a whole, so streaming does not apply
+    inputs.push({ custom_id: request.custom_id, body: { ...request.body, stream: false } });
+  }
+  if (inputs.length === 0) {
+    throw new Error("The batch must contain at least one request");
+  }
+  if (inputs.length > MAX_BATCH_ITEMS) {
+    throw new Error(`The batch contains ${inputs.length} requests, at most ${MAX_BATCH_ITEMS} are allowed`);
+  }
+  return inputs;
+}
+
+/**
+ * Parse the `concurrency` query parameter of a batch
+ */
+export function parseBatchConcurrency(value: string | null): number {
+  if (value === null || value === "") {
+    return DEFAULT_BATCH_CONCURRENCY;
+  }
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY) {
+    throw new Error(`concurrency must be an integer between 1 and ${MAX_BATCH_CONCURRENCY}`);
+  }
+  return concurrency;
+}
+
+/**
+ * Format a finished item as a line of the results file, in the OpenAI batch output format
+ */
+export function toBatchResultLine(batchId: string, item: BatchItem): string {
+  return JSON.stringify({
+    id: `${batchId}-${item.index}`,
+    custom_id: item.custom_id,
+    response: item.response || null,
+    error: item.error || null,
+  });
+}
+
+/**
+ * Batches stored in Durable Object storage
+ * Each item is stored under its own key so progress is saved as items finish
+ */
+export class BatchStore {
+  constructor(private storage: DurableObjectStorage) {}
+
+  private key(ownerId: string, id: string): string {
+    return `${BATCH_PREFIX}${ownerId}:${id}`;
+  }
+
+  private itemPrefix(id: string): string {
+    return `${ITEM_PREFIX}${id}:`;
+  }
+
+  private itemKey(id: string, index: number): string {
+    return `${this.itemPrefix(id)}${index.toString().padStart(8, "0")}`;
+  }
+
+  /**
+   * Create a batch with all of its items pending
+   */
+  async create(
+    ownerId: string,
+    projectId: string,
+    billing: BatchBilling,
+    inputs: BatchInput[],
+    concurrency: number
+  ): Promise<Batch> {
+    const batch: Batch = {
+      id: `batch_${crypto.randomUUID().replace(/-/g, "")}`,
+      object: "batch",
+      status: "in_progress",
+      concurrency,
+      created_at: Math.floor(Date.now() / 1000),
+      completed_at: null,
+      cancelled_at: null,
+      request_counts: { total: inputs.length, completed: 0, failed: 0 },
+    };
+    for (let i = 0; i < inputs.length; i += WRITE_BATCH_SIZE) {
+      const entries: Record<string, BatchItem> = {};
+      inputs.slice(i, i + WRITE_BATCH_SIZE).forEach((input, offset) => {
+        const index = i + offset;
+        entries[this.itemKey(batch.id, index)] = { ...input, index, status: "pending", billed: false };
+      });
+      await this.storage.put(entries);
+    }
+    // The batch is written last, so it is never picked up with items missing
+    const stored: StoredBatch = { batch, ownerId, projectId, billing };
+    await this.storage.put(this.key(ownerId, batch.id), stored);
+    return batch;
+  }
+
+  async get(ownerId: string, id: string): Promise<StoredBatch | null> {
+    return (await this.storage.get<StoredBatch>(this.key(ownerId, id))) || null;
+  }
+
+  /**
+   * List an owner's batches, most recent first
+   */
+  async list(ownerId: string): Promise<Batch[]> {
+    const entries = await this.storage.list<StoredBatch>({ prefix: `${BATCH_PREFIX}${ownerId}:` });
+    return [...entries.values()].map((stored) => stored.batch).sort((a, b) => b.created_at - a.created_at);
+  }
+
+  /**
+   * List the batches of all owners that still have items to run
+   */
+  async listActive(): Promise<StoredBatch[]> {
+    const entries = await this.storage.list<StoredBatch>({ prefix: BATCH_PREFIX });
+    return [...entries.values()].filter((stored) => stored.batch.status === "in_progress");
+  }
+
+  /**
+   * Read the items of a batch in input order, a page at a time so large batches are never held in memory at once
+   */
+  async *items(id: string): AsyncGenerator<BatchItem> {
+    let startAfter: string | undefined;
+    while (true) {
+      const entries = await this.storage.list<BatchItem>({ prefix: this.itemPrefix(id), startAfter, limit: ITEM_PAGE_SIZE });
+      for (const [key, item] of entries) {
+        startAfter = key;
+        yield item;
+      }
+      if (entries.size < ITEM_PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  async putItem(id: string, item: BatchItem): Promise<void> {
+    await this.storage.put(this.itemKey(id, item.index), item);
+  }
+
+  /**
+   * Record a finished item and update the batch counts, completing the batch after its last item
+   * Returns null when the batch was deleted while the item ran
+   */
+  async finishItem(ownerId: string, id: string, item: BatchItem): Promise<StoredBatch | null> {
+    const stored = await this.get(ownerId, id);
+    if (!stored) {
+      return null;
+    }
+    const counts = stored.batch.request_counts;
+    if (item.status === "completed") {
+      counts.completed++;
+    } else {
+      counts.failed++;
+    }
+    if (stored.batch.status === "in_progress" && counts.completed + counts.failed >= counts.total) {
+      stored.batch.status = "completed";
+      stored.batch.completed_at = Math.floor(Date.now() / 1000);
+    }
+    await this.storage.put({ [this.itemKey(id, item.index)]: item, [this.key(ownerId, id)]: stored });
+    return stored;
+  }
+
+  /**
+   * Stop a batch; items that are already running still finish and are recorded
+   */
+  async cancel(ownerId: string, id: string): Promise<Batch | null> {
+    const stored = await this.get(ownerId, id);
+    if (!stored) {
+      return null;
+    }
+    if (stored.batch.status === "in_progress") {
+      stored.batch.status = "cancelled";
+      stored.batch.cancelled_at = Math.floor(Date.now() / 1000);
+      await this.storage.put(this.key(ownerId, id), stored);
+    }
+    return stored.batch;
+  }
+
+  /**
+   * Delete a batch and all of its items
+   */
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    if (!(await this.get(ownerId, id))) {
+      return false;
+    }
+    // The batch goes first, so items that are still running are not recorded afterwards
+    await this.storage.delete(this.key(ownerId, id));
+    const itemKeys = [...(await this.storage.list({ prefix: this.itemPrefix(id) })).keys()];
+    for (let i = 0; i < itemKeys.length; i += WRITE_BATCH_SIZE) {
+      await this.storage.delete(itemKeys.slice(i, i + WRITE_BATCH_SIZE));
+    }
+    return true;
+  }
+}
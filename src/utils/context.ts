@@ -0,0 +1,282 @@
+/**
+ * Token-budget-aware context building with rolling summarization
+ */
+import type { Message } from "../ai/Chat";
+import { getMessageText } from "./messages";
+
+// How much of the conversation was compressed to fit the context window
+export interface ContextReport {
+  original_tokens: number;
+  final_tokens: number;
+  trimmed_tokens: number;
+  summarized_messages: number;
+  summarized_tool_results: number;
+}
+
+// Token budget of the model serving the request
+export interface ContextBudget {
+  contextWindow: number;
+  systemPrompt: string;
+  reservedOutputTokens?: number;
+}
+
+// Summarizes the given prompt with a model call
+export type Summarizer = (prompt: string) => Promise<string>;
+
+// Summary stored in Durable Object storage with its creation time
+interface StoredSummary {
+  summary: string;
+  createdAt: number;
+}
+
+// Tokens kept free for the answer when the request does not set max_tokens
+const DEFAULT_OUTPUT_TOKENS = 4096;
+// Tokens kept free for estimation error and tool definitions
+const SAFETY_MARGIN = 2048;
+// Tool results above this size are summarized once they are no longer part of the current turn
+const TOOL_RESULT_TOKEN_LIMIT = 2000;
+// Upper bound for the length of a generated summary
+export const SUMMARY_MAX_TOKENS = 1024;
+// Characters of a single message included in a summarization prompt
+const SUMMARY_MESSAGE_CHAR_LIMIT = 8000;
+// Durable Object storage reads and deletes at most 128 keys per call
+const STORAGE_BATCH_SIZE = 128;
+// Stored summaries are regenerated once they are older than this
+const SUMMARY_TTL = 7 * 24 * 60 * 60 * 1000;
+const SUMMARY_PREFIX = "context_summary:";
+const TOOL_SUMMARY_PREFIX = "context_tool_summary:";
+
+/**
+ * Estimate the token count of a text
+ * Workers have no tokenizer, so roughly four characters per token are assumed
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate the token count of a message, including tool calls and per-message overhead
+ */
+export function estimateMessageTokens(message: Message): number {
+  const toolCalls = message.tool_calls ? JSON.stringify(message.tool_calls) : "";
+  const functionCall = message.function_call ? JSON.stringify(message.function_call) : "";
+  return estimateTokens(getMessageText(message) + toolCalls + functionCall) + 4;
+}
+
+function sumTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function deleteKeys(storage: DurableObjectStorage, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += STORAGE_BATCH_SIZE) {
+    await storage.delete(keys.slice(i, i + STORAGE_BATCH_SIZE));
+  }
+}
+
+/**
+ * Scope of the summaries of a stored conversation, so they are deleted together with it
+ */
+export function getSummaryScope(ownerId: string, conversationId: string): string {
+  return `${ownerId}:${conversationId}`;
+}
+
+/**
+ * Delete the stored summaries of a conversation
+ */
+export async function deleteConversationSummaries(storage: DurableObjectStorage, scope: string): Promise<void> {
+  for (const prefix of [SUMMARY_PREFIX, TOOL_SUMMARY_PREFIX]) {
+    await deleteKeys(storage, [...(await storage.list({ prefix: `${prefix}${scope}:` })).keys()]);
+  }
+}
+
+/**
+ * Delete stored summaries older than the TTL
+ */
+export async function deleteExpiredSummaries(storage: DurableObjectStorage): Promise<void> {
+  const expiredBefore = Date.now() - SUMMARY_TTL;
+  for (const prefix of [SUMMARY_PREFIX, TOOL_SUMMARY_PREFIX]) {
+    const entries = await storage.list<StoredSummary>({ prefix });
+    const expired = [...entries.entries()]
+      // Summaries stored as plain strings by earlier versions have no creation time and are dropped too
+      .filter(([, stored]) => typeof stored?.createdAt !== "number" || stored.createdAt < expiredBefore)
+      .map(([key]) => key);
+    await deleteKeys(storage, expired);
+  }
+}
+
+/**
+ * Split messages into turns, each starting at a user message
+ * Tool calls and their results always stay in the same turn
+ */
+function splitTurns(messages: Message[]): Message[][] {
+  const turns: Message[][] = [];
+  for (const message of messages) {
+    if (message.role === "user" || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Render a message as a transcript line for summarization
+ */
+function renderMessage(message: Message): string {
+  const calls = (message.tool_calls || [])
+    .map((call: any) => `[called ${call.function?.name} with ${call.function?.arguments}]`)
+    .join(" ");
+  const text = getMessageText(message).slice(0, SUMMARY_MESSAGE_CHAR_LIMIT);
+  return `${message.role}${message.name ? ` (${message.name})` : ""}: ${[text, calls].filter(Boolean).join(" ")}`;
+}
+
+/**
+ * Builds the message list sent to the model within the model's context window
+ * The system prompt and recent turns are kept verbatim, older turns are folded into a rolling summary
+ * and large tool results are summarized; summaries are stored so later requests reuse them
+ * Summaries of a stored conversation are kept under its scope, all others are only removed by expiry
+ */
+export class ContextBuilder {
+  constructor(private storage: DurableObjectStorage, private summarize: Summarizer, private scope?: string) {}
+
+  private key(prefix: string, hash: string): string {
+    return `${prefix}${this.scope ? `${this.scope}:` : ""}${hash}`;
+  }
+
+  private async getSummary(key: string): Promise<string | null> {
+    const stored = await this.storage.get<StoredSummary>(key);
+    return stored?.summary || null;
+  }
+
+  private async putSummary(key: string, summary: string): Promise<void> {
+    const stored: StoredSummary = { summary, createdAt: Date.now() };
+    await this.storage.put(key, stored);
+  }
+
+  async build(messages: Message[], budget: ContextBudget): Promise<{ messages: Message[]; report: ContextReport }> {
+    const available =
+      budget.contextWindow -
+      (budget.reservedOutputTokens ?? DEFAULT_OUTPUT_TOKENS) -
+      estimateTokens(budget.systemPrompt) -
+      SAFETY_MARGIN;
+    const originalTokens = sumTokens(messages);
+    const report: ContextReport = {
+      original_tokens: originalTokens,
+      final_tokens: originalTokens,
+      trimmed_tokens: 0,
+      summarized_messages: 0,
+      summarized_tool_results: 0,
+    };
+    if (originalTokens <= available) {
+      return { messages, report };
+    }
+    // Expired summaries are only cleaned up by requests that read and write summaries
+    await deleteExpiredSummaries(this.storage);
+
+    // Large tool results from earlier turns are summarized first, the current turn stays intact
+    const turns = splitTurns(messages);
+    for (const turn of turns.slice(0, -1)) {
+      for (let i = 0; i < turn.length; i++) {
+        const message = turn[i];
+        if ((message.role === "tool" || message.role === "function") && estimateMessageTokens(message) > TOOL_RESULT_TOKEN_LIMIT) {
+          turn[i] = { ...message, content: `[Summarized tool result] ${await this.summarizeToolResult(message)}` };
+          report.summarized_tool_results++;
+        }
+      }
+    }
+
+    let result = turns.flat();
+    if (sumTokens(result) > available) {
+      // Keep as many recent turns as fit next to the summary, always including the current one
+      let keptTokens = 0;
+      let firstKept = turns.length;
+      while (firstKept > 0) {
+        const turnTokens = sumTokens(turns[firstKept - 1]);
+        if (firstKept < turns.length && keptTokens + turnTokens > available - SUMMARY_MAX_TOKENS) {
+          break;
+        }
+        keptTokens += turnTokens;
+        firstKept--;
+      }
+
+      const older = turns.slice(0, firstKept).flat();
+      if (older.length > 0) {
+        const summary = await this.rollingSummary(older);
+        report.summarized_messages = older.length;
+        result = [
+          { role: "system", content: `Summary of the earlier conversation:\n${summary}` },
+          ...turns.slice(firstKept).flat(),
+        ];
+      }
+    }
+
+    report.final_tokens = sumTokens(result);
+    report.trimmed_tokens = Math.max(0, originalTokens - report.final_tokens);
+    return { messages: result, report };
+  }
+
+  /**
+   * Summarize a large tool result, reusing a stored summary of the same content
+   */
+  private async summarizeToolResult(message: Message): Promise<string> {
+    const content = getMessageText(message);
+    const key = this.key(TOOL_SUMMARY_PREFIX, await sha256(content));
+    const stored = await this.getSummary(key);
+    if (stored) {
+      return stored;
+    }
+    const summary = await this.summarize(
+      `Summarize the following tool result${message.name ? ` from ${message.name}` : ""}. Keep identifiers, totals, dates and any values a follow-up question may need. Reply with the summary only.\n\n${content.slice(0, SUMMARY_MESSAGE_CHAR_LIMIT * 4)}`
+    );
+    await this.putSummary(key, summary);
+    return summary;
+  }
+
+  /**
+   * Summarize older messages, extending the stored summary of the longest already summarized prefix
+   * Prefix hashes are chained so each message is hashed only once
+   */
+  private async rollingSummary(older: Message[]): Promise<string> {
+    const keys: string[] = [];
+    let hash = "";
+    for (const message of older) {
+      hash = await sha256(hash + JSON.stringify(message));
+      keys.push(this.key(SUMMARY_PREFIX, hash));
+    }
+
+    let previous = "";
+    let summarizedCount = 0;
+    for (let end = keys.length; end > 0 && !previous; end -= STORAGE_BATCH_SIZE) {
+      const batch = keys.slice(Math.max(0, end - STORAGE_BATCH_SIZE), end);
+      const stored = await this.storage.get<StoredSummary>(batch);
+      for (let i = batch.length - 1; i >= 0; i--) {
+        const summary = stored.get(batch[i])?.summary;
+        if (summary) {
+          previous = summary;
+          summarizedCount = Math.max(0, end - STORAGE_BATCH_SIZE) + i + 1;
+          break;
+        }
+      }
+    }
+
+    const newMessages = older.slice(summarizedCount);
+    if (newMessages.length === 0) {
+      return previous;
+    }
+    const summary = await this.summarize(
+      `Update the summary of a conversation between a user and an assistant that queries GraphQL APIs.
+Keep facts, decisions, identifiers, query parameters and results the user may refer back to. Reply with the summary only.
+${previous ? `\nCurrent summary:\n${previous}\n` : ""}
+New messages:
+${newMessages.map(renderMessage).join("\n")}`
+    );
+    await this.putSummary(keys[keys.length - 1], summary);
+    return summary;
+  }
+}
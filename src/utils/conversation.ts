@@ -0,0 +1,145 @@
+/**
+ * Server-side conversation threads stored in Durable Object storage
+ */
+import type { Message } from "../ai/Chat";
+import { getMessageText } from "./messages";
+
+// Conversation metadata stored under its own key
+export interface ConversationMeta {
+  id: string;
+  title: string;
+  messageCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Conversation metadata together with its messages
+export interface Conversation extends ConversationMeta {
+  messages: Message[];
+}
+
+// Durable Object storage writes and deletes at most 128 keys per call
+const STORAGE_BATCH_SIZE = 128;
+const TITLE_MAX_LENGTH = 80;
+
+/**
+ * Conversation store backed by Durable Object storage
+ * Each message is stored under its own key so long threads never hit the per-value size limit
+ */
+export class ConversationStore {
+  constructor(private storage: DurableObjectStorage, private ownerId: string) {}
+
+  private metaPrefix(): string {
+    return `conversation_meta:${this.ownerId}:`;
+  }
+
+  private metaKey(id: string): string {
+    return `${this.metaPrefix()}${id}`;
+  }
+
+  private messagePrefix(id: string): string {
+    return `conversation_msg:${this.ownerId}:${id}:`;
+  }
+
+  private messageKey(id: string, index: number): string {
+    return `${this.messagePrefix(id)}${index.toString().padStart(8, "0")}`;
+  }
+
+  /**
+   * Get conversation metadata without loading messages
+   */
+  async getMeta(id: string): Promise<ConversationMeta | null> {
+    return (await this.storage.get<ConversationMeta>(this.metaKey(id))) || null;
+  }
+
+  /**
+   * Get a conversation with all of its messages in order
+   */
+  async get(id: string): Promise<Conversation | null> {
+    const meta = await this.getMeta(id);
+    if (!meta) {
+      return null;
+    }
+    const entries = await this.storage.list<Message>({ prefix: this.messagePrefix(id) });
+    return {
+      ...meta,
+      messages: [...entries.values()],
+    };
+  }
+
+  /**
+   * List conversations, most recently updated first
+   */
+  async list(): Promise<ConversationMeta[]> {
+    const entries = await this.storage.list<ConversationMeta>({ prefix: this.metaPrefix() });
+    return [...entries.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Append messages to a conversation, creating it if it does not exist
+   */
+  async append(id: string, messages: Message[]): Promise<ConversationMeta> {
+    const now = Date.now();
+    const existing = await this.getMeta(id);
+    const meta: ConversationMeta = existing || {
+      id,
+      title: "",
+      messageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const entries: [string, Message | ConversationMeta][] = messages.map((message, offset) => [
+      this.messageKey(id, meta.messageCount + offset),
+      message,
+    ]);
+
+    if (!meta.title) {
+      const firstUserMessage = messages.find((msg) => msg.role === "user");
+      meta.title = firstUserMessage ? getMessageText(firstUserMessage).slice(0, TITLE_MAX_LENGTH) : "";
+    }
+
+    const updated: ConversationMeta = {
+      ...meta,
+      messageCount: meta.messageCount + messages.length,
+      updatedAt: now,
+    };
+
+    // The metadata is written last, so messages of an interrupted append are not counted and get overwritten by the next one
+    entries.push([this.metaKey(id), updated]);
+    for (let i = 0; i < entries.length; i += STORAGE_BATCH_SIZE) {
+      await this.storage.put(Object.fromEntries(entries.slice(i, i + STORAGE_BATCH_SIZE)));
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a conversation and all of its messages
+   */
+  async delete(id: string): Promise<boolean> {
+    const meta = await this.getMeta(id);
+    if (!meta) {
+      return false;
+    }
+    const messageKeys = [...(await this.storage.list({ prefix: this.messagePrefix(id) })).keys()];
+    for (let i = 0; i < messageKeys.length; i += STORAGE_BATCH_SIZE) {
+      await this.storage.delete(messageKeys.slice(i, i + STORAGE_BATCH_SIZE));
+    }
+    await this.storage.delete(this.metaKey(id));
+    return true;
+  }
+}
+
+/**
+ * Derive a stable conversation owner ID from the request's API key
+ * The raw key is hashed so it never ends up in storage keys
+ */
+export async function getConversationOwnerId(request: Request): Promise<string | null> {
+  const authHeader = request.headers.get("Authorization") || "";
+  const token = authHeader.startsWith("Bearer ") ? authHeader.substring(7) : request.headers.get("x-api-key") || "";
+  if (!token) {
+    return null;
+  }
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -1,5 +1,6 @@
 import type { Pool, QueryResult } from 'pg';
 import { KVCache } from "./kv";
+import { normalizeRemoteSchema, normalizeSchemaData } from "./schema-data";
 // 全局连接池单例
 let pgPool: Pool | null = null;
 // 全局连接字符串
@@ -147,7 +148,8 @@ export class DB {
       // 检查查询结果
       if (result && result.rows && Array.isArray(result.rows)) {
         console.log(`Found ${result.rows.length} remoteSchemas`);
-        return result.rows;
+        // SDL格式的schema转换为introspection格式
+        return result.rows.map(normalizeRemoteSchema);
       }
 
       return [];
@@ -167,14 +169,14 @@ export class DB {
       // 执行查询获取指定ID的marketplace记录
       const result = await this.queryInDO(
         null,
-        'SELECT id, name, description, endpoint, headers, "schemaData", "createdAt" FROM "remoteSchemas" WHERE id = $1',
+        'SELECT id, "projectId", name, description, endpoint, headers, "schemaData", "createdAt" FROM "remoteSchemas" WHERE id = $1',
         [remoteSchemaId]
       );
 
       // 检查查询结果
       if (result && result.rows && result.rows.length > 0) {
         console.log(`Found remoteSchema with ID: ${remoteSchemaId}`);
-        return result.rows[0];
+        return normalizeRemoteSchema(result.rows[0]);
       }
 
       console.warn(`No remoteSchema found with ID: ${remoteSchemaId}`);
@@ -185,6 +187,121 @@ export class DB {
     }
   }
 
+  /**
+   * 查询所有配置了endpoint的remoteSchema，用于定时重新introspection
+   * 不包含schemaData，避免一次加载所有schema；刷新时通过getRawSchemaData逐个读取
+   * @returns remoteSchema列表
+   */
+  static async getRemoteSchemasWithEndpoint(): Promise<any[]> {
+    const result = await this.queryInDO(
+      null,
+      'SELECT id, "projectId", name, endpoint, headers FROM "remoteSchemas" WHERE endpoint IS NOT NULL AND endpoint <> \'\'',
+      []
+    );
+    return result?.rows || [];
+  }
+
+  /**
+   * 获取remoteSchema在数据库中的原始schemaData，以便区分SDL和introspection格式
+   * @param remoteSchemaId remoteSchema的ID
+   * @returns 包含schemaData的记录，不存在或查询失败时返回null
+   */
+  static async getRawSchemaData(remoteSchemaId: string): Promise<{ schemaData: any } | null> {
+    const result = await this.queryInDO(
+      null,
+      'SELECT "schemaData" FROM "remoteSchemas" WHERE id = $1',
+      [remoteSchemaId]
+    );
+    return result?.rows?.[0] || null;
+  }
+
+  /**
+   * 合并更新remoteSchema的schemaData，未提供的键保持不变
+   * @param remoteSchemaId remoteSchema的ID
+   * @param patch 要写入schemaData的键值
+   * @param removeKeys 要从schemaData中删除的键
+   * @returns 是否更新成功
+   */
+  static async updateRemoteSchemaData(
+    remoteSchemaId: string,
+    patch: Record<string, unknown>,
+    removeKeys: string[] = []
+  ): Promise<boolean> {
+    const result = await this.queryInDO(
+      null,
+      'UPDATE "remoteSchemas" SET "schemaData" = (COALESCE("schemaData", \'{}\'::jsonb) - $3::text[]) || $2::jsonb WHERE id = $1',
+      [remoteSchemaId, JSON.stringify(patch), removeKeys]
+    );
+    return result !== null && result.rowCount === 1;
+  }
+
+  /**
+   * 追加remoteSchema的变更记录，只保留最近的maxEntries条
+   * 变更记录保存在"remoteSchemaChangeLogs"表中，不随schemaData加载；该表需要手动创建
+   * @param remoteSchemaId remoteSchema的ID
+   * @param entry 变更记录
+   * @param maxEntries 保留的记录条数
+   * @returns 是否写入成功
+   */
+  static async appendSchemaChangeLog(
+    remoteSchemaId: string,
+    entry: { checkedAt: string },
+    maxEntries: number
+  ): Promise<boolean> {
+    const inserted = await this.queryInDO(
+      null,
+      'INSERT INTO "remoteSchemaChangeLogs" ("remoteSchemaId", "checkedAt", entry) VALUES ($1, $2, $3::jsonb)',
+      [remoteSchemaId, entry.checkedAt, JSON.stringify(entry)]
+    );
+    if (inserted === null) {
+      return false;
+    }
+    await this.queryInDO(
+      null,
+      'DELETE FROM "remoteSchemaChangeLogs" WHERE "remoteSchemaId" = $1 AND id NOT IN (SELECT id FROM "remoteSchemaChangeLogs" WHERE "remoteSchemaId" = $1 ORDER BY "checkedAt" DESC, id DESC LIMIT $2)',
+      [remoteSchemaId, maxEntries]
+    );
+    return true;
+  }
+
+  /**
+   * 获取项目的模型配置（允许的模型列表和默认模型）
+   * 配置保存在projects表的jsonb列"modelConfig"中；通过to_jsonb读取，尚未添加该列的数据库同样返回null
+   * @param projectId 项目ID
+   * @returns 模型配置，未配置时返回null
+   */
+  static async getProjectModelConfig(projectId: string): Promise<any | null> {
+    const result = await this.queryInDO(
+      null,
+      'SELECT to_jsonb(projects)->\'modelConfig\' AS "modelConfig" FROM projects WHERE id = $1',
+      [projectId]
+    );
+    return result?.rows?.[0]?.modelConfig || null;
+  }
+
+  /**
+   * 批量获取项目的GraphQL根字段，用于项目路由索引
+   * @param projectIds 项目ID列表
+   * @returns 每个项目的根字段列表
+   */
+  static async getRootFieldsByProjectIds(projectIds: string[]): Promise<Map<string, { name: string; description?: string }[]>> {
+    const rootFields = new Map<string, { name: string; description?: string }[]>();
+    if (projectIds.length === 0) {
+      return rootFields;
+    }
+    // 没有rootFields的schema（如SDL格式）才读取完整的schemaData，从中解析根字段
+    const result = await this.queryInDO(
+      null,
+      'SELECT "projectId", "schemaData"->\'rootFields\' AS "rootFields", CASE WHEN "schemaData"->\'rootFields\' IS NULL THEN "schemaData" END AS "schemaData" FROM "remoteSchemas" WHERE "projectId" = ANY($1)',
+      [projectIds]
+    );
+    for (const row of result?.rows || []) {
+      const fields = row.rootFields || normalizeSchemaData(row.schemaData)?.rootFields || [];
+      rootFields.set(row.projectId, [...(rootFields.get(row.projectId) || []), ...fields]);
+    }
+    return rootFields;
+  }
+
   /**
    * 获取所有已发布的项目
    * @returns 已发布的项目列表
@@ -0,0 +1,184 @@
+/**
+ * JSON Schema to Zod conversion
+ * Workers forbid dynamic code evaluation, so client-supplied schemas are converted structurally
+ */
+import { z, type ZodTypeAny } from "zod";
+
+export type JSONSchema = {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  [key: string]: unknown;
+};
+
+// Keywords that change what a schema accepts but cannot be converted, so ignoring them would accept invalid values
+const UNSUPPORTED_KEYWORDS = [
+  "$ref",
+  "$dynamicRef",
+  "$recursiveRef",
+  "not",
+  "if",
+  "then",
+  "else",
+  "patternProperties",
+  "propertyNames",
+  "dependencies",
+  "dependentSchemas",
+  "dependentRequired",
+  "prefixItems",
+  "contains",
+  "unevaluatedProperties",
+  "unevaluatedItems",
+];
+// Nesting limit for client-supplied schemas, which are converted recursively
+const MAX_SCHEMA_DEPTH = 32;
+
+function withDescription(schema: ZodTypeAny, description?: string): ZodTypeAny {
+  return description ? schema.describe(description) : schema;
+}
+
+function literalUnion(values: unknown[]): ZodTypeAny {
+  const literals = values.map((value) => z.literal(value as z.Primitive));
+  if (literals.length === 0) {
+    return z.never();
+  }
+  return literals.length === 1
+    ? literals[0]
+    : z.union(literals as unknown as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
+
+function unionOf(schemas: JSONSchema[], depth: number): ZodTypeAny {
+  const members = schemas.map((schema) => convert(schema, depth + 1));
+  return members.length === 1
+    ? members[0]
+    : z.union(members as unknown as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
+
+function objectSchema(schema: JSONSchema, depth: number): ZodTypeAny {
+  const required = new Set(schema.required || []);
+  const shape: Record<string, ZodTypeAny> = {};
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    const propertySchema = convert(property, depth + 1);
+    shape[name] = required.has(name) ? propertySchema : propertySchema.optional();
+  }
+  const object = z.object(shape);
+  if (schema.additionalProperties === false) {
+    return object.strict();
+  }
+  if (typeof schema.additionalProperties === "object") {
+    return object.catchall(convert(schema.additionalProperties, depth + 1));
+  }
+  return object.passthrough();
+}
+
+function patternRegExp(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw new Error(`Invalid JSON Schema pattern: ${pattern}`);
+  }
+}
+
+function typedSchema(type: string, schema: JSONSchema, depth: number): ZodTypeAny {
+  switch (type) {
+    case "string": {
+      let result = z.string();
+      if (schema.minLength !== undefined) result = result.min(schema.minLength);
+      if (schema.maxLength !== undefined) result = result.max(schema.maxLength);
+      if (schema.pattern) result = result.regex(patternRegExp(schema.pattern));
+      return result;
+    }
+    case "number":
+    case "integer": {
+      let result = type === "integer" ? z.number().int() : z.number();
+      if (schema.minimum !== undefined) result = result.min(schema.minimum);
+      if (schema.maximum !== undefined) result = result.max(schema.maximum);
+      return result;
+    }
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "array": {
+      let result = z.array(schema.items ? convert(schema.items, depth + 1) : z.any());
+      if (schema.minItems !== undefined) result = result.min(schema.minItems);
+      if (schema.maxItems !== undefined) result = result.max(schema.maxItems);
+      return result;
+    }
+    case "object":
+      return objectSchema(schema, depth);
+    default:
+      return z.any();
+  }
+}
+
+/**
+ * Convert a JSON Schema object into an equivalent Zod schema
+ * Throws an Error with a user-facing message for keywords that cannot be converted, empty unions,
+ * invalid patterns and schemas nested too deeply
+ */
+export function jsonSchemaToZod(schema: JSONSchema | undefined): ZodTypeAny {
+  return convert(schema, 0);
+}
+
+function convert(schema: JSONSchema | undefined, depth: number): ZodTypeAny {
+  if (!schema || typeof schema !== "object") {
+    return z.any();
+  }
+  if (depth > MAX_SCHEMA_DEPTH) {
+    throw new Error(`JSON Schema is nested more than ${MAX_SCHEMA_DEPTH} levels deep`);
+  }
+  const unsupported = UNSUPPORTED_KEYWORDS.find((keyword) => schema[keyword] !== undefined);
+  if (unsupported) {
+    throw new Error(`Unsupported JSON Schema keyword: ${unsupported}`);
+  }
+
+  let result: ZodTypeAny;
+  if (schema.const !== undefined) {
+    result = literalUnion([schema.const]);
+  } else if (Array.isArray(schema.enum)) {
+    result = literalUnion(schema.enum);
+  } else if (schema.anyOf || schema.oneOf) {
+    const members = schema.anyOf || schema.oneOf;
+    if (!Array.isArray(members) || members.length === 0) {
+      throw new Error(`JSON Schema ${schema.anyOf ? "anyOf" : "oneOf"} must be a non-empty array`);
+    }
+    result = unionOf(members, depth);
+  } else if (schema.allOf && schema.allOf.length > 0) {
+    result = schema.allOf
+      .map((member) => convert(member, depth + 1))
+      .reduce((left, right) => z.intersection(left, right));
+  } else if (Array.isArray(schema.type)) {
+    if (schema.type.length === 0) {
+      throw new Error("JSON Schema type must not be an empty array");
+    }
+    result = unionOf(schema.type.map((type) => ({ ...schema, type })), depth);
+  } else if (schema.type) {
+    result = typedSchema(schema.type, schema, depth);
+  } else if (schema.properties) {
+    result = objectSchema(schema, depth);
+  } else {
+    result = z.any();
+  }
+
+  if (schema.nullable) {
+    result = result.nullable();
+  }
+  return withDescription(result, schema.description);
+}
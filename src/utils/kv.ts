@@ -153,6 +153,28 @@ export class KVCache {
     }
   }
   
+  /**
+   * 清除指定前缀的所有缓存
+   * @returns 清除的键数量
+   */
+  static async invalidatePrefix(prefix: string): Promise<number> {
+    if (!globalKVNamespace) return 0;
+    
+    let count = 0;
+    try {
+      let cursor: string | undefined;
+      do {
+        const result = await globalKVNamespace.list({ prefix, cursor });
+        await Promise.all(result.keys.map((key) => globalKVNamespace!.delete(key.name)));
+        count += result.keys.length;
+        cursor = result.list_complete ? undefined : result.cursor;
+      } while (cursor);
+    } catch (error) {
+      console.error(`Error invalidating cache for prefix ${prefix}:`, error);
+    }
+    return count;
+  }
+  
   /**
    * 获取缓存数据但不执行函数（如果缓存不存在则返回null）
    */
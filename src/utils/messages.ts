@@ -0,0 +1,193 @@
+/**
+ * Conversion of OpenAI-compatible chat messages into AI SDK core messages
+ */
+import type { CoreMessage, ImagePart, TextPart, ToolCallPart } from "ai";
+import type { Message, MessageContentPart } from "../ai/Chat";
+
+interface ToCoreMessagesOptions {
+  // Render tool calls and results as assistant text, for models without tool support
+  flattenTools?: boolean;
+}
+
+/**
+ * Get the plain text of a message, ignoring non-text content parts
+ */
+export function getMessageText(message: Pick<Message, "content">): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  if (Array.isArray(message.content)) {
+    return message.content
+      .filter((part): part is Extract<MessageContentPart, { type: "text" }> => part.type === "text")
+      .map((part) => part.text)
+      .join("\n");
+  }
+  return "";
+}
+
+/**
+ * Parse tool call arguments, which OpenAI sends as a JSON string
+ */
+function parseToolArguments(args: unknown): unknown {
+  if (typeof args !== "string") {
+    return args ?? {};
+  }
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
+
+/**
+ * Parse tool result content back into JSON when possible
+ */
+function parseToolResult(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Parse the URL of an image content part, which may also be a data URL
+ */
+function parseImageUrl(url: unknown): URL {
+  try {
+    return new URL(url as string);
+  } catch {
+    throw new Error(`Invalid image_url: ${typeof url === "string" ? url.slice(0, 100) : String(url)}`);
+  }
+}
+
+/**
+ * Check the content parts of request messages before they are converted
+ * Throws an Error with a user-facing message when a part is invalid
+ */
+export function validateMessageContent(messages: unknown): void {
+  if (!Array.isArray(messages)) {
+    return;
+  }
+  for (const message of messages as Message[]) {
+    if (!Array.isArray(message?.content)) {
+      continue;
+    }
+    for (const part of message.content) {
+      if (part?.type === "image_url") {
+        parseImageUrl(part.image_url?.url);
+      }
+    }
+  }
+}
+
+function toUserContent(message: Message): string | Array<TextPart | ImagePart> {
+  if (!Array.isArray(message.content)) {
+    return message.content ?? "";
+  }
+  return message.content.map((part): TextPart | ImagePart =>
+    part.type === "image_url"
+      ? { type: "image", image: parseImageUrl(part.image_url.url) }
+      : { type: "text", text: part.text }
+  );
+}
+
+/**
+ * Convert OpenAI-compatible messages into role-tagged core messages
+ * Assistant tool_calls become tool-call parts and tool/function messages become tool results
+ */
+export function toCoreMessages(messages: Message[], options: ToCoreMessagesOptions = {}): CoreMessage[] {
+  const result: CoreMessage[] = [];
+  // Tool names by call ID, so tool results can be matched to their calls
+  const toolNames = new Map<string, string>();
+  // Pending legacy function_call IDs by function name
+  const pendingFunctionCalls = new Map<string, string>();
+
+  messages.forEach((message, index) => {
+    switch (message.role) {
+      case "system":
+        result.push({ role: "system", content: getMessageText(message) });
+        break;
+
+      case "user":
+        result.push({ role: "user", content: toUserContent(message) });
+        break;
+
+      case "assistant": {
+        const text = getMessageText(message);
+        const toolCalls: ToolCallPart[] = (message.tool_calls || []).map((call: any) => ({
+          type: "tool-call",
+          toolCallId: call.id,
+          toolName: call.function?.name,
+          args: parseToolArguments(call.function?.arguments),
+        }));
+        if (message.function_call) {
+          const toolCallId = `function_call_${index}`;
+          pendingFunctionCalls.set(message.function_call.name, toolCallId);
+          toolCalls.push({
+            type: "tool-call",
+            toolCallId,
+            toolName: message.function_call.name,
+            args: parseToolArguments(message.function_call.arguments),
+          });
+        }
+        toolCalls.forEach((call) => toolNames.set(call.toolCallId, call.toolName));
+
+        if (options.flattenTools || toolCalls.length === 0) {
+          const callsText = toolCalls
+            .map((call) => `[Called tool ${call.toolName} with ${JSON.stringify(call.args)}]`)
+            .join("\n");
+          result.push({ role: "assistant", content: [text, callsText].filter(Boolean).join("\n") });
+        } else {
+          result.push({
+            role: "assistant",
+            content: [...(text ? [{ type: "text" as const, text }] : []), ...toolCalls],
+          });
+        }
+        break;
+      }
+
+      case "tool":
+      case "function": {
+        const toolCallId =
+          message.role === "tool"
+            ? message.tool_call_id || ""
+            : pendingFunctionCalls.get(message.name || "") || `function_call_${index}`;
+        const toolName = toolNames.get(toolCallId) || message.name || "unknown";
+        const content = getMessageText(message);
+
+        if (options.flattenTools) {
+          result.push({ role: "assistant", content: `[Tool ${toolName} returned: ${content}]` });
+        } else {
+          result.push({
+            role: "tool",
+            content: [{ type: "tool-result", toolCallId, toolName, result: parseToolResult(content) }],
+          });
+        }
+        break;
+      }
+    }
+  });
+
+  return options.flattenTools ? mergeConsecutiveAssistantMessages(result) : result;
+}
+
+/**
+ * Merge adjacent assistant text messages, since some providers require alternating roles
+ */
+function mergeConsecutiveAssistantMessages(messages: CoreMessage[]): CoreMessage[] {
+  return messages.reduce<CoreMessage[]>((merged, message) => {
+    const previous = merged[merged.length - 1];
+    if (
+      previous?.role === "assistant" &&
+      message.role === "assistant" &&
+      typeof previous.content === "string" &&
+      typeof message.content === "string"
+    ) {
+      merged[merged.length - 1] = { role: "assistant", content: `${previous.content}\n${message.content}` };
+    } else {
+      merged.push(message);
+    }
+    return merged;
+  }, []);
+}
@@ -0,0 +1,200 @@
+/**
+ * Model registry and per-project model selection
+ */
+
+// Registered model served through OpenRouter
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextWindow: number;
+  supportsTools: boolean;
+}
+
+// Per-project model configuration stored in projects."modelConfig"
+export interface ProjectModelConfig {
+  allowedModels?: string[];
+  defaultModel?: string;
+  fallbackModels?: string[];
+}
+
+// Sampling parameters applied to the agent call
+export interface SamplingParams {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stopSequences?: string[];
+}
+
+export const DEFAULT_MODEL = "qwen/qwen-2.5-72b-instruct";
+export const SONAR_MODEL = "perplexity/sonar-pro";
+// Model used to summarize older conversation turns
+export const SUMMARY_MODEL = "openai/gpt-4o-mini";
+// Models tried in order when the serving model fails, unless set per project or by the FALLBACK_MODELS variable
+export const DEFAULT_FALLBACK_MODELS = ["openai/gpt-4o-mini", "google/gemini-2.0-flash-001"];
+
+// Published projects are exposed as models named "project/<projectId>"
+export const PROJECT_MODEL_PREFIX = "project/";
+
+export const MODEL_REGISTRY: ModelInfo[] = [
+  { id: "qwen/qwen-2.5-72b-instruct", name: "Qwen 2.5 72B Instruct", contextWindow: 32768, supportsTools: true },
+  { id: "openai/gpt-4o", name: "GPT-4o", contextWindow: 128000, supportsTools: true },
+  { id: "openai/gpt-4o-mini", name: "GPT-4o mini", contextWindow: 128000, supportsTools: true },
+  { id: "anthropic/claude-3.5-sonnet", name: "Claude 3.5 Sonnet", contextWindow: 200000, supportsTools: true },
+  { id: "google/gemini-2.0-flash-001", name: "Gemini 2.0 Flash", contextWindow: 1048576, supportsTools: true },
+  { id: "deepseek/deepseek-chat", name: "DeepSeek V3", contextWindow: 64000, supportsTools: true },
+  { id: "perplexity/sonar-pro", name: "Sonar Pro", contextWindow: 200000, supportsTools: false },
+];
+
+/**
+ * Look up a registered model
+ */
+export function getModelInfo(modelId: string): ModelInfo | undefined {
+  return MODEL_REGISTRY.find((model) => model.id === modelId);
+}
+
+/**
+ * Get the models a project may use; without an allowlist every tool-capable model is allowed
+ */
+export function getAllowedModels(config: ProjectModelConfig | null): ModelInfo[] {
+  const allowlist = config?.allowedModels;
+  return MODEL_REGISTRY.filter((model) =>
+    allowlist && allowlist.length > 0 ? allowlist.includes(model.id) : model.supportsTools
+  );
+}
+
+/**
+ * Get the project ID selected by a project model name, or null for other models
+ */
+export function parseProjectModel(model: unknown): string | null {
+  if (typeof model !== "string" || !model.startsWith(PROJECT_MODEL_PREFIX)) {
+    return null;
+  }
+  return model.slice(PROJECT_MODEL_PREFIX.length) || null;
+}
+
+/**
+ * Get the context window of a model, falling back to the default model's window
+ */
+export function getContextWindow(modelId: string): number {
+  return (getModelInfo(modelId) || getModelInfo(DEFAULT_MODEL)!).contextWindow;
+}
+
+/**
+ * Resolve the model that should serve a request
+ * Unregistered names (e.g. SDK defaults such as "gpt-4o") fall back to the project default,
+ * registered models outside the project's allowlist are rejected
+ */
+export function resolveModel(requested: string | undefined, config: ProjectModelConfig | null): string {
+  const allowed = getAllowedModels(config);
+
+  if (!requested || !getModelInfo(requested)) {
+    return getDefaultModel(allowed, config);
+  }
+  if (!allowed.some((model) => model.id === requested)) {
+    throw new Error(`Model ${requested} is not allowed for this project`);
+  }
+  return requested;
+}
+
+/**
+ * Get the project default model
+ * An unset or disallowed default falls back to the global default, then to the first allowed tool-capable model
+ */
+function getDefaultModel(allowed: ModelInfo[], config: ProjectModelConfig | null): string {
+  const candidates = [config?.defaultModel, DEFAULT_MODEL, ...allowed.filter((model) => model.supportsTools).map((model) => model.id)];
+  const defaultModel = candidates.find((id) => id && allowed.some((model) => model.id === id));
+  if (!defaultModel) {
+    throw new Error("No model in this project's allowlist can serve the request");
+  }
+  return defaultModel;
+}
+
+/**
+ * Parse a comma-separated model list such as the FALLBACK_MODELS variable
+ */
+export function parseModelList(value: string | undefined): string[] | undefined {
+  const models = (value || "").split(",").map((model) => model.trim()).filter(Boolean);
+  return models.length > 0 ? models : undefined;
+}
+
+/**
+ * Get the models tried, in order, after the serving model fails
+ * The project's list takes precedence over the global default; models outside the project's allowlist are skipped
+ */
+export function getFallbackModels(
+  primary: string,
+  config: ProjectModelConfig | null,
+  globalDefault: string[] = DEFAULT_FALLBACK_MODELS
+): string[] {
+  const allowed = getAllowedModels(config);
+  const chain = config?.fallbackModels && config.fallbackModels.length > 0 ? config.fallbackModels : globalDefault;
+  return [...new Set(chain)].filter((id) => id !== primary && allowed.some((model) => model.id === id));
+}
+
+/**
+ * Check whether a model error should fail over to the next model
+ * Rate limits, server errors, timeouts and responses that did not match the expected format are retryable
+ */
+export function isRetryableModelError(error: unknown): boolean {
+  const err = error as { name?: string; statusCode?: number; isRetryable?: boolean; lastError?: unknown; message?: string } | null;
+  if (!err) {
+    return false;
+  }
+  // The SDK's own retries wrap the last provider error
+  if (err.name === "AI_RetryError") {
+    return isRetryableModelError(err.lastError);
+  }
+  if (err.name === "AI_TypeValidationError" || err.name === "TimeoutError") {
+    return true;
+  }
+  if (typeof err.statusCode === "number") {
+    return err.statusCode === 429 || err.statusCode >= 500;
+  }
+  return err.isRetryable === true || /timed? ?out/i.test(err.message || "");
+}
+
+/**
+ * Extract and validate sampling parameters from an OpenAI-compatible request body
+ * Throws an Error with a user-facing message when a value is out of range
+ */
+export function getSamplingParams(body: {
+  temperature?: unknown;
+  max_tokens?: unknown;
+  max_completion_tokens?: unknown;
+  top_p?: unknown;
+  stop?: unknown;
+}): SamplingParams {
+  const params: SamplingParams = {};
+
+  if (body.temperature !== undefined && body.temperature !== null) {
+    if (typeof body.temperature !== "number" || body.temperature < 0 || body.temperature > 2) {
+      throw new Error("temperature must be a number between 0 and 2");
+    }
+    params.temperature = body.temperature;
+  }
+
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens;
+  if (maxTokens !== undefined && maxTokens !== null) {
+    if (typeof maxTokens !== "number" || !Number.isInteger(maxTokens) || maxTokens < 1) {
+      throw new Error("max_tokens must be a positive integer");
+    }
+    params.maxTokens = maxTokens;
+  }
+
+  if (body.top_p !== undefined && body.top_p !== null) {
+    if (typeof body.top_p !== "number" || body.top_p < 0 || body.top_p > 1) {
+      throw new Error("top_p must be a number between 0 and 1");
+    }
+    params.topP = body.top_p;
+  }
+
+  if (body.stop !== undefined && body.stop !== null) {
+    const stop = typeof body.stop === "string" ? [body.stop] : body.stop;
+    if (!Array.isArray(stop) || stop.length > 4 || stop.some((item) => typeof item !== "string")) {
+      throw new Error("stop must be a string or an array of up to 4 strings");
+    }
+    params.stopSequences = stop;
+  }
+
+  return params;
+}
@@ -0,0 +1,293 @@
+/**
+ * Embedding-based project routing for global chat
+ */
+
+// Published project as returned by DB.getPublishedProjects
+export interface RoutableProject {
+  id: string;
+  name: string;
+  description?: string | null;
+  prompt?: string | null;
+  isOffical?: boolean;
+}
+
+// Project scored against a question
+export interface RouteCandidate {
+  project: RoutableProject;
+  score: number;
+}
+
+export type RouteReason =
+  | "hint"
+  | "sticky"
+  | "similarity"
+  | "llm_selection"
+  | "below_threshold"
+  | "no_projects"
+  | "routing_error";
+
+// Routing decision with the candidates that were considered; empty when no project fits
+export interface RouteResult {
+  projects: RoutableProject[];
+  reason: RouteReason;
+  candidates: RouteCandidate[];
+}
+
+// External calls the router depends on
+export interface ProjectRouterDeps {
+  embed: (values: string[]) => Promise<number[][]>;
+  getRootFields: (projectIds: string[]) => Promise<Map<string, { name: string; description?: string }[]>>;
+  selectProjects: (question: string, candidates: RouteCandidate[]) => Promise<string[]>;
+}
+
+// Indexed project embedding stored in Durable Object storage
+interface IndexEntry {
+  id: string;
+  hash: string;
+  embedding: number[];
+}
+
+// Projects selected for a conversation
+interface ConversationRoute {
+  projectIds: string[];
+  updatedAt: number;
+}
+
+// Minimum cosine similarity for a project to be considered at all
+const SCORE_THRESHOLD = 0.3;
+// Candidates within this distance of the best score may be needed as well and go to the LLM selection
+const CANDIDATE_MARGIN = 0.1;
+// Maximum number of candidates passed to the LLM selection, and so of projects answering one question
+const MAX_CANDIDATES = 3;
+// A conversation only moves away from its projects when another project beats them by this much
+const TOPIC_CHANGE_MARGIN = 0.15;
+// Conversations idle for longer than this are routed from scratch
+const ROUTE_TTL = 24 * 60 * 60 * 1000;
+// Durable Object storage deletes at most 128 keys per call
+const DELETE_BATCH_SIZE = 128;
+// How often published projects are re-read and re-embedded when changed
+const SYNC_INTERVAL = 10 * 60 * 1000;
+// Embedding input limit in characters, well below the model's token limit
+const DOCUMENT_CHAR_LIMIT = 8000;
+const EMBED_BATCH_SIZE = 64;
+const ENTRY_PREFIX = "project_index:";
+const SYNCED_AT_KEY = "project_index_synced_at";
+const ROUTE_PREFIX = "project_route:";
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Build the text that represents a project in the index
+ */
+function buildDocument(project: RoutableProject, rootFields: { name: string; description?: string }[]): string {
+  const fieldsText = rootFields
+    .map((field) => (field.description ? `${field.name}: ${field.description}` : field.name))
+    .join("\n");
+  return [
+    project.name,
+    project.description || "",
+    project.prompt || "",
+    fieldsText ? `Queries:\n${fieldsText}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n")
+    .slice(0, DOCUMENT_CHAR_LIMIT);
+}
+
+/**
+ * Routes global chat questions to published projects
+ * Project descriptions, prompts and schema root fields are embedded and kept in an index in Durable Object storage;
+ * candidates are selected by vector similarity and an LLM is only asked to choose among close candidates,
+ * which may result in several projects when the question spans them
+ */
+export class ProjectRouter {
+  private entries: Map<string, IndexEntry> | null = null;
+  private syncedAt = 0;
+
+  constructor(private storage: DurableObjectStorage, private deps: ProjectRouterDeps) {}
+
+  /**
+   * Pick the projects needed to answer a question
+   * Projects previously selected for the conversation are kept unless the question clearly moved to another project
+   */
+  async route(question: string, projects: RoutableProject[], previousIds: string[] = []): Promise<RouteResult> {
+    if (projects.length === 0) {
+      return { projects: [], reason: "no_projects", candidates: [] };
+    }
+    const entries = await this.sync(projects);
+    const [queryEmbedding] = await this.deps.embed([question]);
+
+    const scored = projects
+      .filter((project) => entries.has(project.id))
+      .map((project) => ({ project, score: cosineSimilarity(queryEmbedding, entries.get(project.id)!.embedding) }))
+      .sort((a, b) => b.score - a.score);
+    const candidates = scored.filter((candidate) => candidate.score >= SCORE_THRESHOLD).slice(0, MAX_CANDIDATES);
+    console.log("Project routing scores:", scored.slice(0, MAX_CANDIDATES).map((c) => `${c.project.id}=${c.score.toFixed(3)}`));
+
+    // Follow-up questions such as "and last month?" score low everywhere and stay with the conversation's projects
+    const previous = scored.filter((candidate) => previousIds.includes(candidate.project.id));
+    if (previous.length > 0) {
+      const best = scored[0];
+      const topicChanged =
+        best.score >= SCORE_THRESHOLD &&
+        !previousIds.includes(best.project.id) &&
+        best.score - previous[0].score > TOPIC_CHANGE_MARGIN;
+      if (!topicChanged) {
+        return { projects: previous.map((candidate) => candidate.project), reason: "sticky", candidates };
+      }
+    }
+
+    if (candidates.length === 0) {
+      return { projects: [], reason: "below_threshold", candidates: scored.slice(0, MAX_CANDIDATES) };
+    }
+    const close = candidates.filter((candidate) => candidates[0].score - candidate.score <= CANDIDATE_MARGIN);
+    if (close.length === 1) {
+      return { projects: [close[0].project], reason: "similarity", candidates };
+    }
+
+    // The LLM selection is only a refinement, the best scoring candidate is used when it fails
+    const selectedIds = await this.deps.selectProjects(question, close).catch((error) => {
+      console.error("Project selection failed:", error);
+      return [] as string[];
+    });
+    const selected = close.filter((candidate) => selectedIds.includes(candidate.project.id));
+    return selected.length > 0
+      ? { projects: selected.map((candidate) => candidate.project), reason: "llm_selection", candidates }
+      : { projects: [close[0].project], reason: "similarity", candidates };
+  }
+
+  /**
+   * Bring the index up to date with the published projects
+   * Only projects whose indexed text changed are re-embedded
+   */
+  private async sync(projects: RoutableProject[]): Promise<Map<string, IndexEntry>> {
+    if (!this.entries) {
+      this.entries = new Map();
+      const stored = await this.storage.list<IndexEntry>({ prefix: ENTRY_PREFIX });
+      for (const entry of stored.values()) {
+        this.entries.set(entry.id, entry);
+      }
+      this.syncedAt = (await this.storage.get<number>(SYNCED_AT_KEY)) || 0;
+    }
+    const entries = this.entries;
+    const unindexed = projects.some((project) => !entries.has(project.id));
+    if (!unindexed && Date.now() - this.syncedAt < SYNC_INTERVAL) {
+      return entries;
+    }
+
+    const rootFields = await this.deps.getRootFields(projects.map((project) => project.id));
+    const documents = await Promise.all(
+      projects.map(async (project) => {
+        const text = buildDocument(project, rootFields.get(project.id) || []);
+        return { id: project.id, text, hash: await sha256(text) };
+      })
+    );
+    const changed = documents.filter((document) => entries.get(document.id)?.hash !== document.hash);
+    for (let i = 0; i < changed.length; i += EMBED_BATCH_SIZE) {
+      const batch = changed.slice(i, i + EMBED_BATCH_SIZE);
+      const embeddings = await this.deps.embed(batch.map((document) => document.text));
+      const updates: Record<string, IndexEntry> = {};
+      batch.forEach((document, index) => {
+        const entry = { id: document.id, hash: document.hash, embedding: embeddings[index] };
+        entries.set(document.id, entry);
+        updates[`${ENTRY_PREFIX}${document.id}`] = entry;
+      });
+      await this.storage.put(updates);
+    }
+
+    const publishedIds = new Set(projects.map((project) => project.id));
+    const removed = [...entries.keys()].filter((id) => !publishedIds.has(id));
+    removed.forEach((id) => entries.delete(id));
+    if (removed.length > 0) {
+      await this.storage.delete(removed.map((id) => `${ENTRY_PREFIX}${id}`));
+    }
+
+    this.syncedAt = Date.now();
+    await this.storage.put(SYNCED_AT_KEY, this.syncedAt);
+    console.log(`Project index synced: ${changed.length} embedded, ${removed.length} removed`);
+    return entries;
+  }
+}
+
+/**
+ * Identify a global conversation for sticky routing
+ * Clients without server-side threads resend the whole history, so its first user message identifies the conversation
+ */
+export async function getConversationRouteKey(conversationId: string | undefined, firstUserMessage: string): Promise<string | null> {
+  if (conversationId) {
+    return `id:${conversationId}`;
+  }
+  return firstUserMessage ? `message:${await sha256(firstUserMessage)}` : null;
+}
+
+/**
+ * Find the published projects named by a `project` hint, matching IDs or names
+ * Returns null when any of the hinted projects is not published
+ */
+export function findHintedProjects(hint: string | string[], projects: RoutableProject[]): RoutableProject[] | null {
+  const names = (Array.isArray(hint) ? hint : [hint]).map((name) => name.trim().toLowerCase());
+  const found = names.map((name) =>
+    projects.find((project) => project.id.toLowerCase() === name || project.name.toLowerCase() === name)
+  );
+  return found.every(Boolean) ? [...new Set(found as RoutableProject[])] : null;
+}
+
+/**
+ * Projects selected per conversation, stored in Durable Object storage
+ */
+export class ConversationRouteStore {
+  private cleanedAt = 0;
+
+  constructor(private storage: DurableObjectStorage) {}
+
+  private key(ownerId: string, conversationKey: string): string {
+    return `${ROUTE_PREFIX}${ownerId}:${conversationKey}`;
+  }
+
+  /**
+   * Get the projects selected for a conversation, ignoring expired selections
+   */
+  async get(ownerId: string, conversationKey: string): Promise<string[]> {
+    const route = await this.storage.get<ConversationRoute>(this.key(ownerId, conversationKey));
+    return route && Date.now() - route.updatedAt < ROUTE_TTL ? route.projectIds : [];
+  }
+
+  /**
+   * Remember the projects selected for a conversation
+   */
+  async put(ownerId: string, conversationKey: string, projectIds: string[]): Promise<void> {
+    await this.storage.put(this.key(ownerId, conversationKey), { projectIds, updatedAt: Date.now() });
+  }
+
+  /**
+   * Delete selections of conversations that have been idle for longer than the TTL, at most once per TTL
+   */
+  async deleteExpired(): Promise<void> {
+    if (Date.now() - this.cleanedAt < ROUTE_TTL) {
+      return;
+    }
+    this.cleanedAt = Date.now();
+    const routes = await this.storage.list<ConversationRoute>({ prefix: ROUTE_PREFIX });
+    const expired = [...routes.entries()]
+      .filter(([, route]) => Date.now() - route.updatedAt >= ROUTE_TTL)
+      .map(([key]) => key);
+    for (let i = 0; i < expired.length; i += DELETE_BATCH_SIZE) {
+      await this.storage.delete(expired.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+}
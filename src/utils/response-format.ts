@@ -0,0 +1,103 @@
+/**
+ * OpenAI `response_format` support: JSON mode and JSON-schema structured output
+ */
+import type { ZodTypeAny } from "zod";
+import { jsonSchemaToZod, type JSONSchema } from "./json-schema";
+
+// Structured output requested by the client
+export interface ResponseFormat {
+  type: "json_object" | "json_schema";
+  name?: string;
+  schema?: JSONSchema;
+  validator?: ZodTypeAny;
+}
+
+// Result of validating a model response
+export type ResponseFormatResult =
+  | { valid: true; text: string }
+  | { valid: false; error: string };
+
+/**
+ * Parse an OpenAI `response_format` value
+ * Returns undefined for plain text output, throws an Error with a user-facing message when invalid
+ */
+export function parseResponseFormat(value: unknown): ResponseFormat | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const format = value as { type?: string; json_schema?: { name?: string; schema?: JSONSchema } };
+  switch (format.type) {
+    case "text":
+      return undefined;
+    case "json_object":
+      return { type: "json_object" };
+    case "json_schema": {
+      const schema = format.json_schema?.schema;
+      if (!schema || typeof schema !== "object") {
+        throw new Error("response_format.json_schema.schema must be a JSON Schema object");
+      }
+      return {
+        type: "json_schema",
+        name: format.json_schema?.name,
+        schema,
+        validator: jsonSchemaToZod(schema),
+      };
+    }
+    default:
+      throw new Error(`Unsupported response_format type: ${format.type}`);
+  }
+}
+
+/**
+ * Build the instructions appended to the system prompt for a response format
+ */
+export function getResponseFormatInstructions(format: ResponseFormat): string {
+  const base = `RESPONSE FORMAT:
+Your final answer must be a single valid JSON value and nothing else: no markdown code fences, no explanations before or after it.
+Use the tools as usual to gather data first, then put the results into the JSON.`;
+  if (format.type === "json_object") {
+    return `${base}
+The JSON value must be an object.`;
+  }
+  return `${base}
+The JSON must conform to this JSON Schema${format.name ? ` (${format.name})` : ""}:
+${JSON.stringify(format.schema, null, 2)}`;
+}
+
+/**
+ * Validate a model response against the requested format
+ * Code fences around the JSON are tolerated and stripped from the returned text
+ */
+export function validateResponseFormat(text: string, format: ResponseFormat): ResponseFormatResult {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { valid: false, error: `Response is not valid JSON: ${(error as Error).message}` };
+  }
+
+  if (format.type === "json_object") {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return { valid: false, error: "Response must be a JSON object" };
+    }
+    return { valid: true, text: json };
+  }
+
+  const result = format.validator!.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    return { valid: false, error: `Response does not match the schema: ${issues}` };
+  }
+  return { valid: true, text: json };
+}
+
+/**
+ * Build the follow-up message asking the model to fix an invalid response
+ */
+export function getRepairPrompt(error: string): string {
+  return `Your previous answer was rejected. ${error}
+Reply again with only the corrected JSON value, without any other text.`;
+}
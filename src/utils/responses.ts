@@ -0,0 +1,551 @@
+/**
+ * OpenAI Responses API compatibility: request conversion, stored responses and streaming events
+ */
+import type { ChatRequestBody, Message, MessageContentPart } from "../ai/Chat";
+import {
+  ChatStreamWriter,
+  createJsonErrorResponse,
+  decodeProjectId,
+  encodeProjectId,
+  readErrorMessage,
+  type ChatStreamOptions,
+  type ChatStreamSink,
+  type ToolCallDelta,
+} from "./stream";
+import type { ToolEvent } from "./tool-events";
+import type { ChatUsage } from "./usage";
+
+// Item of the Responses API `input` array: a message, a function call or a function call output
+type ResponseInputItem = { type?: string; [key: string]: any };
+
+// Responses API request body
+export interface ResponsesRequestBody {
+  model?: string;
+  input?: string | ResponseInputItem[];
+  instructions?: string;
+  previous_response_id?: string;
+  tools?: { type: string; name?: string; description?: string; parameters?: Record<string, unknown> }[];
+  tool_choice?: "auto" | "none" | "required" | { type: "function"; name: string };
+  parallel_tool_calls?: boolean;
+  temperature?: number;
+  top_p?: number;
+  max_output_tokens?: number;
+  text?: { format?: { type: string; name?: string; schema?: Record<string, unknown>; strict?: boolean } };
+  reasoning?: { effort?: string; summary?: string | null };
+  metadata?: Record<string, string>;
+  store?: boolean;
+  stream?: boolean;
+}
+
+// Item of a response's `output` array
+export type ResponseOutputItem = { type: string; id: string; [key: string]: any };
+
+// Responses API response object
+export interface ResponseObject {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: "in_progress" | "completed" | "failed";
+  model: string;
+  instructions: string | null;
+  previous_response_id: string | null;
+  output: ResponseOutputItem[];
+  output_text: string;
+  usage: { input_tokens: number; output_tokens: number; total_tokens: number } | null;
+  error: { code: string; message: string } | null;
+  incomplete_details: null;
+  metadata: Record<string, string>;
+}
+
+// Response stored for retrieval and for requests continuing from it
+interface StoredResponse {
+  ownerId: string | null;
+  response: ResponseObject;
+  // Input and output of this turn as chat messages; instructions are not carried over to later turns
+  messages: Message[];
+  storedAt: number;
+}
+
+const RESPONSE_PREFIX = "response:";
+// Responses are also listed by storage time, so expired ones are found without reading every response
+const RESPONSE_EXPIRY_PREFIX = "response_expiry:";
+// Stored responses can be retrieved and continued for 30 days, like OpenAI's
+const RESPONSE_TTL = 30 * 24 * 60 * 60 * 1000;
+// Durable Object storage deletes at most 128 keys per call
+const DELETE_BATCH_SIZE = 128;
+// Server tools run by the agent are reported as calls to this MCP server
+const SERVER_LABEL = "quicksilver";
+const RESPONSE_ID_PATTERN = /^resp_[0-9a-f]{32}([A-Za-z0-9_-]+)$/;
+
+// OpenAI error types by HTTP status
+const ERROR_TYPES: Record<number, string> = {
+  401: "authentication_error",
+  403: "permission_error",
+  429: "rate_limit_error",
+};
+
+function randomId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Generate a response ID
+ * The project ID is encoded into it, so stored responses can be retrieved without naming the project
+ */
+export function createResponseId(projectId: string): string {
+  return `${randomId("resp")}${encodeProjectId(projectId)}`;
+}
+
+/**
+ * Read the project ID from a response ID, null when the ID was not created by createResponseId
+ */
+export function getResponseProjectId(responseId: string): string | null {
+  const match = responseId.match(RESPONSE_ID_PATTERN);
+  return match ? decodeProjectId(match[1]) : null;
+}
+
+function toMessageContent(content: string | ResponseInputItem[]): string | MessageContentPart[] {
+  if (typeof content === "string") {
+    return content;
+  }
+  const parts: MessageContentPart[] = content.map((part) => {
+    if (part.type === "input_text" || part.type === "output_text") {
+      return { type: "text", text: part.text };
+    }
+    if (part.type === "input_image" && typeof part.image_url === "string") {
+      return { type: "image_url", image_url: { url: part.image_url, detail: part.detail } };
+    }
+    throw new Error(`input: unsupported content type '${part.type}', only input_text and input_image with image_url are supported`);
+  });
+  const textOnly = parts.every((part) => part.type === "text");
+  return textOnly ? parts.map((part) => (part as { text: string }).text).join("\n") : parts;
+}
+
+/**
+ * Convert the `input` of a Responses API request to OpenAI messages
+ * Function calls become tool calls of an assistant message, function call outputs become tool messages
+ */
+export function getResponseInputMessages(input: ResponsesRequestBody["input"]): Message[] {
+  if (typeof input === "string") {
+    return [{ role: "user", content: input }];
+  }
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error("input: a string or at least one input item is required");
+  }
+  const messages: Message[] = [];
+  for (const item of input) {
+    if (item.type === "function_call") {
+      const call = { id: item.call_id, type: "function", function: { name: item.name, arguments: item.arguments } };
+      const last = messages[messages.length - 1];
+      if (last?.role === "assistant") {
+        last.tool_calls = [...(last.tool_calls || []), call];
+      } else {
+        messages.push({ role: "assistant", content: null, tool_calls: [call] });
+      }
+    } else if (item.type === "function_call_output") {
+      messages.push({
+        role: "tool",
+        tool_call_id: item.call_id,
+        content: typeof item.output === "string" ? item.output : JSON.stringify(item.output),
+      });
+    } else if (item.type === undefined || item.type === "message") {
+      messages.push({
+        role: item.role === "developer" ? "system" : item.role,
+        content: toMessageContent(item.content),
+      });
+    }
+    // Reasoning and server tool items from earlier responses are not sent back to the model
+  }
+  return messages;
+}
+
+/**
+ * Convert a Responses API request into the OpenAI chat completion request handled by the agent
+ * `messages` holds the conversation so far followed by the converted input
+ * Throws an Error with a user-facing message when the request is invalid
+ */
+export function fromResponsesRequest(body: ResponsesRequestBody, messages: Message[]): ChatRequestBody {
+  const tools = body.tools || [];
+  const unsupported = tools.find((tool) => tool.type !== "function");
+  if (unsupported) {
+    throw new Error(`tools: unsupported tool type '${unsupported.type}', only function tools are supported`);
+  }
+  const format = body.text?.format;
+  const choice = body.tool_choice;
+  return {
+    model: body.model,
+    max_tokens: body.max_output_tokens,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    parallel_tool_calls: body.parallel_tool_calls,
+    // The run is always streamed; non-streaming requests are answered once it completes
+    stream: true,
+    include_reasoning: Boolean(body.reasoning?.summary),
+    messages: [...(body.instructions ? [{ role: "system" as const, content: body.instructions }] : []), ...messages],
+    tools: tools.length > 0
+      ? tools.map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters || { type: "object", properties: {} },
+        },
+      }))
+      : undefined,
+    tool_choice: typeof choice === "object" && choice ? { type: "function", function: { name: choice.name } } : choice,
+    response_format: !format || format.type === "text"
+      ? undefined
+      : format.type === "json_schema"
+        ? { type: "json_schema", json_schema: { name: format.name, schema: format.schema, strict: format.strict } }
+        : { type: format.type },
+  };
+}
+
+/**
+ * Convert the output of a response into the assistant message of a conversation continuing from it
+ * Server tool calls are left out, as they are for conversation threads
+ */
+function toResponseMessages(response: ResponseObject): Message[] {
+  const toolCalls = response.output
+    .filter((item) => item.type === "function_call")
+    .map((item) => ({ id: item.call_id, type: "function", function: { name: item.name, arguments: item.arguments } }));
+  if (toolCalls.length > 0) {
+    return [{ role: "assistant", content: response.output_text || null, tool_calls: toolCalls }];
+  }
+  return response.output_text ? [{ role: "assistant", content: response.output_text }] : [];
+}
+
+/**
+ * Convert an error response of the chat completion handler into the OpenAI error format
+ * Errors of streaming requests arrive as an SSE chunk and are returned as JSON, like the OpenAI API does
+ */
+export async function toResponsesErrorResponse(response: Response): Promise<Response> {
+  if (response.headers.get("Content-Type")?.includes("application/json")) {
+    return response;
+  }
+  return createJsonErrorResponse({
+    message: await readErrorMessage(response),
+    type: ERROR_TYPES[response.status] || (response.status >= 500 ? "server_error" : "invalid_request_error"),
+    status: response.status,
+  });
+}
+
+/**
+ * Responses stored in Durable Object storage
+ * Each response keeps only its own turn, so a chain is read back by following previous_response_id
+ */
+export class ResponseStore {
+  constructor(private storage: DurableObjectStorage) {}
+
+  private key(id: string): string {
+    return `${RESPONSE_PREFIX}${id}`;
+  }
+
+  private expiryKey(storedAt: number, id: string): string {
+    return `${RESPONSE_EXPIRY_PREFIX}${storedAt.toString().padStart(15, "0")}:${id}`;
+  }
+
+  /**
+   * Get a stored response, null when it does not exist, has expired or belongs to another API key
+   */
+  async get(id: string, ownerId: string | null): Promise<StoredResponse | null> {
+    const stored = await this.storage.get<StoredResponse>(this.key(id));
+    if (!stored || stored.ownerId !== ownerId || Date.now() - stored.storedAt >= RESPONSE_TTL) {
+      return null;
+    }
+    return stored;
+  }
+
+  /**
+   * Store a response together with the input messages of its turn
+   */
+  async put(ownerId: string | null, response: ResponseObject, input: Message[]): Promise<void> {
+    const stored: StoredResponse = {
+      ownerId,
+      response,
+      messages: [...input, ...toResponseMessages(response)],
+      storedAt: Date.now(),
+    };
+    await this.storage.put({
+      [this.key(response.id)]: stored,
+      [this.expiryKey(stored.storedAt, response.id)]: response.id,
+    });
+  }
+
+  /**
+   * Delete responses stored longer ago than the TTL, oldest first and at most `limit` of them
+   * Returns whether stored responses remain
+   */
+  async deleteExpired(limit: number = DELETE_BATCH_SIZE / 2): Promise<boolean> {
+    const expired = await this.storage.list<string>({
+      prefix: RESPONSE_EXPIRY_PREFIX,
+      end: this.expiryKey(Date.now() - RESPONSE_TTL, ""),
+      limit,
+    });
+    const keys = [...expired].flatMap(([key, id]) => [key, this.key(id)]);
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.storage.delete(keys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+    return (await this.storage.list({ prefix: RESPONSE_EXPIRY_PREFIX, limit: 1 })).size > 0;
+  }
+
+  /**
+   * Get the messages of a response and of all responses it continues from, oldest first
+   * Returns null when the response does not exist
+   */
+  async getHistory(id: string, ownerId: string | null): Promise<Message[] | null> {
+    const turns: Message[][] = [];
+    let nextId: string | null = id;
+    while (nextId) {
+      const stored: StoredResponse | null = await this.get(nextId, ownerId);
+      if (!stored) {
+        return null;
+      }
+      turns.unshift(stored.messages);
+      nextId = stored.response.previous_response_id;
+    }
+    return turns.flat();
+  }
+}
+
+/**
+ * Writes OpenAI Responses API streaming events
+ * Text and reasoning become message and reasoning items, client tool calls become function_call items and
+ * server tool calls (HttpTool, SchemaDetailsTool, GraphQLQueryTool, SchemaSearchTool) become mcp_call items carrying their output; the final
+ * response object is passed to `onDone` so it can be stored and returned to non-streaming requests
+ */
+export class ResponsesStreamWriter extends ChatStreamWriter {
+  private started = false;
+  private sequenceNumber = 0;
+  private readonly createdAt = Math.floor(Date.now() / 1000);
+  private output: ResponseOutputItem[] = [];
+  // Output index of the message or reasoning item text is appended to
+  private current: number | null = null;
+  private currentText = "";
+  // Output index of running server tool calls by tool call ID
+  private serverCalls = new Map<string, number>();
+  private totalUsage: ChatUsage | null = null;
+  private failure: { code: string; message: string } | null = null;
+
+  constructor(
+    sink: ChatStreamSink,
+    id: string,
+    model: string,
+    options: ChatStreamOptions,
+    private request: ResponsesRequestBody,
+    private onDone: (response: ResponseObject) => void
+  ) {
+    super(sink, id, model, options);
+  }
+
+  private send(type: string, data: Record<string, unknown>): void {
+    this.write(`event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: this.sequenceNumber++, ...data })}\n\n`);
+  }
+
+  private snapshot(status: ResponseObject["status"]): ResponseObject {
+    return {
+      id: this.id,
+      object: "response",
+      created_at: this.createdAt,
+      status,
+      model: this.model,
+      instructions: this.request.instructions ?? null,
+      previous_response_id: this.request.previous_response_id ?? null,
+      output: this.output,
+      output_text: this.output
+        .filter((item) => item.type === "message")
+        .flatMap((item) => item.content.map((part: { text: string }) => part.text))
+        .join(""),
+      usage: this.totalUsage
+        ? {
+          input_tokens: this.totalUsage.prompt_tokens,
+          output_tokens: this.totalUsage.completion_tokens,
+          total_tokens: this.totalUsage.total_tokens,
+        }
+        : null,
+      error: status === "failed" ? this.failure : null,
+      incomplete_details: null,
+      metadata: this.request.metadata || {},
+    };
+  }
+
+  private start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    const response = this.snapshot("in_progress");
+    this.send("response.created", { response });
+    this.send("response.in_progress", { response });
+  }
+
+  private addItem(item: ResponseOutputItem): number {
+    this.start();
+    this.closeItem();
+    const index = this.output.push(item) - 1;
+    this.send("response.output_item.added", { output_index: index, item });
+    return index;
+  }
+
+  private openItem(type: "message" | "reasoning"): ResponseOutputItem {
+    if (this.current !== null && this.output[this.current].type === type) {
+      return this.output[this.current];
+    }
+    const item = type === "message"
+      ? { id: randomId("msg"), type, role: "assistant", status: "in_progress", content: [] }
+      : { id: randomId("rs"), type, summary: [] };
+    const index = this.addItem(item);
+    this.current = index;
+    this.currentText = "";
+    if (type === "message") {
+      this.send("response.content_part.added", {
+        item_id: item.id,
+        output_index: index,
+        content_index: 0,
+        part: { type: "output_text", text: "", annotations: [] },
+      });
+    } else {
+      this.send("response.reasoning_summary_part.added", {
+        item_id: item.id,
+        output_index: index,
+        summary_index: 0,
+        part: { type: "summary_text", text: "" },
+      });
+    }
+    return item;
+  }
+
+  private closeItem(): void {
+    if (this.current === null) {
+      return;
+    }
+    const index = this.current;
+    const item = this.output[index];
+    const text = this.currentText;
+    this.current = null;
+    if (item.type === "message") {
+      const part = { type: "output_text", text, annotations: [] };
+      this.send("response.output_text.done", { item_id: item.id, output_index: index, content_index: 0, text });
+      this.send("response.content_part.done", { item_id: item.id, output_index: index, content_index: 0, part });
+      item.content = [part];
+      item.status = "completed";
+    } else {
+      const part = { type: "summary_text", text };
+      this.send("response.reasoning_summary_text.done", { item_id: item.id, output_index: index, summary_index: 0, text });
+      this.send("response.reasoning_summary_part.done", { item_id: item.id, output_index: index, summary_index: 0, part });
+      item.summary = [part];
+    }
+    this.send("response.output_item.done", { output_index: index, item });
+  }
+
+  private finishServerCall(toolCallId: string, output: string | null, error: string | null): void {
+    const index = this.serverCalls.get(toolCallId);
+    if (index === undefined) {
+      return;
+    }
+    this.serverCalls.delete(toolCallId);
+    const item = this.output[index];
+    item.output = output;
+    item.error = error;
+    this.send(error ? "response.mcp_call.failed" : "response.mcp_call.completed", { item_id: item.id, output_index: index });
+    this.send("response.output_item.done", { output_index: index, item });
+  }
+
+  chunk(): void {
+    // Chat completion chunks have no Responses API equivalent
+  }
+
+  content(text: string): void {
+    if (!text) {
+      return;
+    }
+    const item = this.openItem("message");
+    this.currentText += text;
+    this.send("response.output_text.delta", { item_id: item.id, output_index: this.current, content_index: 0, delta: text });
+  }
+
+  reasoning(text: string): void {
+    if (!this.options.includeReasoning || !text) {
+      return;
+    }
+    const item = this.openItem("reasoning");
+    this.currentText += text;
+    this.send("response.reasoning_summary_text.delta", {
+      item_id: item.id,
+      output_index: this.current,
+      summary_index: 0,
+      delta: text,
+    });
+  }
+
+  toolCall(_index: number, call: ToolCallDelta): void {
+    const item = {
+      id: randomId("fc"),
+      type: "function_call",
+      status: "completed",
+      call_id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments,
+    };
+    const index = this.addItem({ ...item, status: "in_progress", arguments: "" });
+    this.output[index] = item;
+    this.send("response.function_call_arguments.delta", { item_id: item.id, output_index: index, delta: item.arguments });
+    this.send("response.function_call_arguments.done", { item_id: item.id, output_index: index, arguments: item.arguments });
+    this.send("response.output_item.done", { output_index: index, item });
+  }
+
+  /**
+   * Server tool calls are always written as mcp_call items, whether or not tool events were requested
+   */
+  event(name: string, data: unknown): void {
+    const toolEvent = data as ToolEvent;
+    if (name === "tool_call") {
+      const item = {
+        id: randomId("mcp"),
+        type: "mcp_call",
+        server_label: SERVER_LABEL,
+        name: toolEvent.name,
+        arguments: typeof toolEvent.arguments === "string" ? toolEvent.arguments : JSON.stringify(toolEvent.arguments ?? {}),
+        output: null,
+        error: null,
+      };
+      const index = this.addItem(item);
+      this.serverCalls.set(toolEvent.id, index);
+      this.send("response.mcp_call.in_progress", { item_id: item.id, output_index: index });
+    } else if (name === "tool_result") {
+      if (toolEvent.status === "error") {
+        this.finishServerCall(toolEvent.id, null, toolEvent.error || "Tool call failed");
+      } else {
+        const result = toolEvent.result;
+        this.finishServerCall(toolEvent.id, typeof result === "string" ? result : JSON.stringify(result ?? null), null);
+      }
+    }
+  }
+
+  metadata(): void {
+    // Routing and fallback metadata has no Responses API equivalent
+  }
+
+  finish(): void {
+    // The response status is derived from errors when the stream is done
+  }
+
+  usage(usage: ChatUsage): void {
+    this.totalUsage = usage;
+  }
+
+  error(error: { message: string; type: string; code: string }): void {
+    this.failure = { code: error.code, message: error.message };
+  }
+
+  done(): void {
+    this.start();
+    this.closeItem();
+    for (const toolCallId of [...this.serverCalls.keys()]) {
+      this.finishServerCall(toolCallId, null, "Tool call did not complete");
+    }
+    const response = this.snapshot(this.failure ? "failed" : "completed");
+    this.send(`response.${response.status}`, { response });
+    this.onDone(response);
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Resumable SSE streams buffered in Durable Object storage
+ */
+
+// Stream metadata stored under its own key
+export interface StreamMeta {
+  id: string;
+  ownerId: string | null;
+  eventCount: number;
+  done: boolean;
+  createdAt: number;
+}
+
+// Buffered streams can be replayed for an hour
+const STREAM_TTL = 60 * 60 * 1000;
+// How long a run keeps going without any connected client before it is abandoned
+const ABANDON_TIMEOUT = 30 * 1000;
+// Durable Object storage deletes at most 128 keys per call
+const DELETE_BATCH_SIZE = 128;
+// Events are written to storage in chunks, flushed when one of these limits is reached and when the stream closes
+const FLUSH_EVENT_COUNT = 32;
+const FLUSH_SIZE = 64 * 1024;
+const FLUSH_INTERVAL = 500;
+
+const EXPIRY_PREFIX = "stream_expiry:";
+
+function metaKey(id: string): string {
+  return `stream_meta:${id}`;
+}
+
+function eventPrefix(id: string): string {
+  return `stream_event:${id}:`;
+}
+
+// Each chunk of events is keyed by the sequence number of its first event
+function eventKey(id: string, seq: number): string {
+  return `${eventPrefix(id)}${seq.toString().padStart(8, "0")}`;
+}
+
+function eventKeySeq(key: string): number {
+  return Number(key.slice(key.lastIndexOf(":") + 1));
+}
+
+// Streams are also listed by creation time, so expired ones are found without reading every stream
+function expiryKey(createdAt: number, id: string): string {
+  return `${EXPIRY_PREFIX}${createdAt.toString().padStart(15, "0")}:${id}`;
+}
+
+/**
+ * A live SSE stream whose events carry sequential `id:` fields
+ * Every event is buffered in memory and in storage so clients can reconnect with `Last-Event-ID`
+ * Storage writes are batched into chunks, so a stream that outlives its instance may miss its last unflushed events
+ */
+export class ResumableStream {
+  private encoder = new TextEncoder();
+  private events: string[] = [];
+  private subscribers = new Set<ReadableStreamDefaultController>();
+  private closed = false;
+  private createdAt = Date.now();
+  private abandonTimer: ReturnType<typeof setTimeout> | null = null;
+  // Number of events already written to storage
+  private flushedCount = 0;
+  private pendingSize = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private storage: DurableObjectStorage,
+    readonly id: string,
+    private ownerId: string | null,
+    private onAbandoned?: () => void
+  ) {
+    this.storage.put({ [metaKey(id)]: this.meta(), [expiryKey(this.createdAt, id)]: id });
+  }
+
+  private meta(): StreamMeta {
+    return {
+      id: this.id,
+      ownerId: this.ownerId,
+      eventCount: this.events.length,
+      done: this.closed,
+      createdAt: this.createdAt,
+    };
+  }
+
+  /**
+   * Append an SSE event and forward it to connected clients
+   */
+  send(data: string): void {
+    if (this.closed) {
+      return;
+    }
+    const seq = this.events.length + 1;
+    const frame = `id: ${seq}\n${data}`;
+    this.events.push(frame);
+    this.pendingSize += frame.length;
+    if (this.events.length - this.flushedCount >= FLUSH_EVENT_COUNT || this.pendingSize >= FLUSH_SIZE) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL);
+    }
+    const encoded = this.encoder.encode(frame);
+    for (const controller of this.subscribers) {
+      controller.enqueue(encoded);
+    }
+  }
+
+  /**
+   * Mark the stream as finished and close every connected client
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.clearAbandonTimer();
+    this.flush();
+    this.storage.put(metaKey(this.id), this.meta());
+    for (const controller of this.subscribers) {
+      controller.close();
+    }
+    this.subscribers.clear();
+  }
+
+  /**
+   * Open a client stream that replays events after `lastEventId` and then continues live
+   */
+  subscribe(lastEventId: number = 0): ReadableStream {
+    let subscriber: ReadableStreamDefaultController;
+    return new ReadableStream({
+      start: (controller) => {
+        subscriber = controller;
+        for (const frame of this.events.slice(lastEventId)) {
+          controller.enqueue(this.encoder.encode(frame));
+        }
+        if (this.closed) {
+          controller.close();
+          return;
+        }
+        this.subscribers.add(controller);
+        this.clearAbandonTimer();
+      },
+      cancel: () => {
+        this.subscribers.delete(subscriber);
+        if (this.subscribers.size === 0 && !this.closed && this.onAbandoned) {
+          // Keep the run alive for a while so the client can reconnect
+          this.abandonTimer = setTimeout(() => {
+            this.abandonTimer = null;
+            if (this.subscribers.size === 0 && !this.closed) {
+              this.onAbandoned?.();
+            }
+          }, ABANDON_TIMEOUT);
+        }
+      },
+    });
+  }
+
+  /**
+   * Write the events sent since the last flush to storage as one chunk
+   */
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.flushedCount === this.events.length) {
+      return;
+    }
+    this.storage.put(eventKey(this.id, this.flushedCount + 1), this.events.slice(this.flushedCount));
+    this.flushedCount = this.events.length;
+    this.pendingSize = 0;
+  }
+
+  private clearAbandonTimer(): void {
+    if (this.abandonTimer) {
+      clearTimeout(this.abandonTimer);
+      this.abandonTimer = null;
+    }
+  }
+}
+
+/**
+ * Get the metadata of a buffered stream
+ */
+export async function getStreamMeta(storage: DurableObjectStorage, id: string): Promise<StreamMeta | null> {
+  return (await storage.get<StreamMeta>(metaKey(id))) || null;
+}
+
+/**
+ * Replay a buffered stream from storage when it is no longer live in this instance
+ */
+export async function replayStoredStream(
+  storage: DurableObjectStorage,
+  id: string,
+  lastEventId: number = 0
+): Promise<ReadableStream> {
+  // The chunk holding the first missed event may start before it
+  const previous = await storage.list<string[]>({
+    prefix: eventPrefix(id),
+    end: eventKey(id, lastEventId + 2),
+    reverse: true,
+    limit: 1,
+  });
+  const firstChunk = [...previous.keys()][0];
+  const chunks = await storage.list<string[]>({
+    prefix: eventPrefix(id),
+    start: firstChunk || eventKey(id, lastEventId + 1),
+  });
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const [key, frames] of chunks) {
+        const firstSeq = eventKeySeq(key);
+        frames.forEach((frame, index) => {
+          if (firstSeq + index > lastEventId) {
+            controller.enqueue(encoder.encode(frame));
+          }
+        });
+      }
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Delete buffered streams older than the replay window, oldest first and at most `limit` of them
+ * Returns whether buffered streams remain
+ */
+export async function deleteExpiredStreams(storage: DurableObjectStorage, limit: number = DELETE_BATCH_SIZE): Promise<boolean> {
+  const expired = await storage.list<string>({
+    prefix: EXPIRY_PREFIX,
+    end: expiryKey(Date.now() - STREAM_TTL, ""),
+    limit,
+  });
+  for (const [key, id] of expired) {
+    const eventKeys = [...(await storage.list({ prefix: eventPrefix(id) })).keys()];
+    for (let i = 0; i < eventKeys.length; i += DELETE_BATCH_SIZE) {
+      await storage.delete(eventKeys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+    await storage.delete([metaKey(id), key]);
+  }
+  return (await storage.list({ prefix: EXPIRY_PREFIX, limit: 1 })).size > 0;
+}
@@ -0,0 +1,85 @@
+/**
+ * Agent run records stored in Durable Object storage
+ */
+import type { ChatUsage } from "./usage";
+
+export type RunStatus = "completed" | "cancelled" | "failed";
+
+// Outcome of a single chat completion run, used for chargeback reports
+export interface RunRecord {
+  id: string;
+  // Owner of the run, derived from the API key like conversation owners
+  ownerId: string | null;
+  status: RunStatus;
+  model: string;
+  usage: ChatUsage;
+  startedAt: number;
+  endedAt: number;
+}
+
+// Run records are kept for a week of chargeback reports
+const RUN_TTL = 7 * 24 * 60 * 60 * 1000;
+// Durable Object storage deletes at most 128 keys per call
+const DELETE_BATCH_SIZE = 128;
+const LIST_PAGE_SIZE = 128;
+export const DEFAULT_RUN_LIST_LIMIT = 100;
+export const MAX_RUN_LIST_LIMIT = 1000;
+const RUN_PREFIX = "run:";
+
+/**
+ * Run store backed by Durable Object storage
+ * Records are keyed by end time, so they are listed and expired in order without reading the whole store
+ */
+export class RunStore {
+  constructor(private storage: DurableObjectStorage) {}
+
+  private key(endedAt: number, id: string): string {
+    return `${RUN_PREFIX}${endedAt.toString().padStart(15, "0")}:${id}`;
+  }
+
+  /**
+   * Save a run record
+   */
+  async put(record: RunRecord): Promise<void> {
+    await this.storage.put(this.key(record.endedAt, record.id), record);
+  }
+
+  /**
+   * List the runs of an owner that ended after `after` (exclusive), oldest first
+   */
+  async list(ownerId: string, after: number = 0, limit: number = DEFAULT_RUN_LIST_LIMIT): Promise<RunRecord[]> {
+    const records: RunRecord[] = [];
+    let start = this.key(after + 1, "");
+    while (records.length < limit) {
+      const page = await this.storage.list<RunRecord>({ prefix: RUN_PREFIX, start, limit: LIST_PAGE_SIZE });
+      for (const record of page.values()) {
+        if (record.ownerId === ownerId && records.length < limit) {
+          records.push(record);
+        }
+      }
+      if (page.size < LIST_PAGE_SIZE) {
+        break;
+      }
+      // Continue after the last key of the page
+      start = `${[...page.keys()][page.size - 1]}\0`;
+    }
+    return records;
+  }
+
+  /**
+   * Delete run records that ended longer ago than the TTL, oldest first and at most `limit` of them
+   * Returns whether run records remain
+   */
+  async deleteExpired(limit: number = DELETE_BATCH_SIZE): Promise<boolean> {
+    const expired = await this.storage.list({
+      prefix: RUN_PREFIX,
+      end: this.key(Date.now() - RUN_TTL, ""),
+      limit,
+    });
+    const keys = [...expired.keys()];
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.storage.delete(keys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+    return (await this.storage.list({ prefix: RUN_PREFIX, limit: 1 })).size > 0;
+  }
+}
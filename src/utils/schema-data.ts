@@ -0,0 +1,110 @@
+/**
+ * Normalization of stored remote schema data
+ * Schemas are stored either as introspection JSON or as SDL; both are turned into the introspection
+ * shape the tools work with (`rawSchema` holding the `__schema` object, plus `rootFields`)
+ */
+import { buildSchema, introspectionFromSchema } from "graphql";
+
+// Root field summary listed in prompts and used for project routing
+export interface RootField {
+  name: string;
+  description?: string;
+}
+
+/**
+ * KV cache keys holding remote schema data, invalidated when a stored schema changes
+ */
+export const remoteSchemaCacheKeys = {
+  // Remote schemas of a project loaded by the Chat DO
+  chatProject: (projectId: string) => `remoteSchemas_project_v7_${projectId}`,
+  // Remote schemas of a project loaded by the tools and MCP
+  toolProject: (projectId: string) => `remoteSchemas_project_v2_${projectId}`,
+  // Project and schema loaded by the GraphQL query tool
+  graphqlQuery: (remoteSchemaId: string) => `remoteSchema_${remoteSchemaId}_graphql_v3`,
+  // Schema details are cached per set of requested fields, so they are invalidated by prefix
+  schemaDetailsPrefix: (remoteSchemaId: string) => `schema_remoteSchema_${remoteSchemaId}_fields_`,
+};
+
+/**
+ * Read the introspection `__schema` object from stored introspection JSON
+ * Accepts the bare `__schema` object, the full introspection result and a `{ data: ... }` response
+ */
+export function getIntrospectionSchema(rawSchema: any): any | null {
+  const schema = rawSchema?.data?.__schema || rawSchema?.__schema || rawSchema;
+  return schema && typeof schema === "object" && Array.isArray(schema.types) ? schema : null;
+}
+
+/**
+ * Get the SDL of a schema stored as SDL, either in `sdl` or as a string `rawSchema`
+ */
+export function getSchemaSDL(schemaData: any): string | null {
+  if (typeof schemaData?.sdl === "string" && schemaData.sdl.trim()) {
+    return schemaData.sdl;
+  }
+  if (typeof schemaData?.rawSchema === "string" && schemaData.rawSchema.trim()) {
+    return schemaData.rawSchema;
+  }
+  return null;
+}
+
+/**
+ * Build the introspection `__schema` object from SDL
+ * Directive definitions are often left out of published SDL (e.g. federation directives), so the SDL is not validated
+ */
+export function introspectSDL(sdl: string): any {
+  const schema = buildSchema(sdl, { assumeValidSDL: true });
+  return introspectionFromSchema(schema, { descriptions: true, inputValueDeprecation: true }).__schema;
+}
+
+/**
+ * List the query and mutation fields of an introspection schema
+ */
+export function getRootFields(schema: any): RootField[] {
+  const rootTypeNames = [schema.queryType?.name, schema.mutationType?.name].filter(Boolean);
+  return schema.types
+    .filter((type: any) => rootTypeNames.includes(type.name))
+    .flatMap((type: any) => type.fields || [])
+    .map((field: any) => ({
+      name: field.name,
+      ...(field.description ? { description: field.description } : {}),
+    }));
+}
+
+/**
+ * Normalize stored schema data into the introspection shape
+ * SDL that cannot be parsed leaves `rawSchema` unset, so the tools report the schema as missing
+ */
+export function normalizeSchemaData(schemaData: any): any {
+  if (!schemaData || typeof schemaData !== "object") {
+    return schemaData;
+  }
+
+  let rawSchema = getIntrospectionSchema(schemaData.rawSchema);
+  if (!rawSchema) {
+    const sdl = getSchemaSDL(schemaData);
+    if (sdl) {
+      try {
+        rawSchema = introspectSDL(sdl);
+      } catch (error) {
+        console.error("Failed to parse remote schema SDL:", error);
+      }
+    }
+  }
+  if (!rawSchema) {
+    const { rawSchema: _invalid, ...rest } = schemaData;
+    return rest;
+  }
+
+  return {
+    ...schemaData,
+    rawSchema,
+    rootFields: Array.isArray(schemaData.rootFields) ? schemaData.rootFields : getRootFields(rawSchema),
+  };
+}
+
+/**
+ * Normalize the schema data of a remote schema row
+ */
+export function normalizeRemoteSchema<T extends { schemaData?: any }>(remoteSchema: T): T {
+  return { ...remoteSchema, schemaData: normalizeSchemaData(remoteSchema.schemaData) };
+}
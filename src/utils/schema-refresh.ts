@@ -0,0 +1,235 @@
+/**
+ * Scheduled re-introspection of remote schemas
+ * Each schema's endpoint is introspected with its stored headers and compared with the stored schema; changed
+ * schemas are updated, their cached copies are dropped and the changes are appended to the schema's change log
+ * The change log is kept in its own table rather than in schemaData, which is loaded with every chat request
+ */
+import {
+  buildClientSchema,
+  findBreakingChanges,
+  findDangerousChanges,
+  getIntrospectionQuery,
+  isInterfaceType,
+  isObjectType,
+  type GraphQLSchema,
+} from "graphql";
+import { DB } from "./db";
+import { KVCache } from "./kv";
+import { getIntrospectionSchema, getRootFields, getSchemaSDL, remoteSchemaCacheKeys } from "./schema-data";
+
+export type SchemaChangeSeverity = "breaking" | "dangerous" | "safe";
+
+// A single difference between the stored and the introspected schema
+export interface SchemaChange {
+  severity: SchemaChangeSeverity;
+  type: string;
+  description: string;
+}
+
+// Change log entry recorded in the remoteSchemaChangeLogs table when a schema changes
+export interface SchemaChangeLogEntry {
+  checkedAt: string;
+  counts: Record<SchemaChangeSeverity, number>;
+  changes: SchemaChange[];
+  // Set when there was no stored schema to compare with
+  initial?: boolean;
+}
+
+// Outcome of a refresh run
+export interface SchemaRefreshSummary {
+  checked: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+}
+
+const INTROSPECTION_TIMEOUT = 20_000;
+const REFRESH_CONCURRENCY = 4;
+// Change log entries kept per schema
+const MAX_CHANGE_LOG_ENTRIES = 50;
+const MAX_CHANGES_PER_ENTRY = 100;
+
+/**
+ * Find changes that cannot break or alter existing operations: added types and fields, new deprecations
+ * and description updates
+ */
+function findSafeChanges(oldSchema: GraphQLSchema, newSchema: GraphQLSchema): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const add = (type: string, description: string) => changes.push({ severity: "safe", type, description });
+  const oldTypes = oldSchema.getTypeMap();
+
+  for (const [name, newType] of Object.entries(newSchema.getTypeMap())) {
+    if (name.startsWith("__")) {
+      continue;
+    }
+    const oldType = oldTypes[name];
+    if (!oldType) {
+      add("TYPE_ADDED", `${name} was added.`);
+      continue;
+    }
+    if ((oldType.description || "") !== (newType.description || "")) {
+      add("DESCRIPTION_CHANGED", `The description of ${name} changed.`);
+    }
+    // Fields added to input types are reported as dangerous or breaking by graphql
+    if ((isObjectType(newType) || isInterfaceType(newType)) && (isObjectType(oldType) || isInterfaceType(oldType))) {
+      const oldFields = oldType.getFields();
+      for (const field of Object.values(newType.getFields())) {
+        const oldField = oldFields[field.name];
+        if (!oldField) {
+          add("FIELD_ADDED", `${name}.${field.name} was added.`);
+          continue;
+        }
+        if (field.deprecationReason != null && oldField.deprecationReason == null) {
+          add("FIELD_DEPRECATED", `${name}.${field.name} was deprecated: ${field.deprecationReason}`);
+        }
+        if ((oldField.description || "") !== (field.description || "")) {
+          add("DESCRIPTION_CHANGED", `The description of ${name}.${field.name} changed.`);
+        }
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare two introspection schemas and classify every change as breaking, dangerous or safe
+ * Breaking changes make existing operations fail, dangerous ones may change their results
+ */
+export function diffSchemas(oldRawSchema: any, newRawSchema: any): SchemaChange[] {
+  const oldSchema = buildClientSchema({ __schema: oldRawSchema });
+  const newSchema = buildClientSchema({ __schema: newRawSchema });
+  return [
+    ...findBreakingChanges(oldSchema, newSchema).map((change) => ({
+      severity: "breaking" as const,
+      type: change.type,
+      description: change.description,
+    })),
+    ...findDangerousChanges(oldSchema, newSchema).map((change) => ({
+      severity: "dangerous" as const,
+      type: change.type,
+      description: change.description,
+    })),
+    ...findSafeChanges(oldSchema, newSchema),
+  ];
+}
+
+/**
+ * Introspect a GraphQL endpoint and return its `__schema` object
+ */
+async function introspectEndpoint(endpoint: string, headers: Record<string, string> | null): Promise<any> {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(headers || {}),
+    },
+    body: JSON.stringify({ query: getIntrospectionQuery({ descriptions: true }) }),
+    signal: AbortSignal.timeout(INTROSPECTION_TIMEOUT),
+  });
+  if (!response.ok) {
+    throw new Error(`Introspection failed with status ${response.status}`);
+  }
+  const result: any = await response.json();
+  const schema = getIntrospectionSchema(result);
+  if (!schema) {
+    throw new Error(`Introspection returned no schema${result?.errors?.[0]?.message ? `: ${result.errors[0].message}` : ""}`);
+  }
+  // Rejects incomplete introspection results before they replace a working schema
+  buildClientSchema({ __schema: schema });
+  return schema;
+}
+
+/**
+ * Drop the cached copies of a remote schema
+ */
+async function invalidateSchemaCache(remoteSchema: { id: string; projectId: string }): Promise<void> {
+  await Promise.all([
+    KVCache.invalidate(remoteSchemaCacheKeys.chatProject(remoteSchema.projectId)),
+    KVCache.invalidate(remoteSchemaCacheKeys.toolProject(remoteSchema.projectId)),
+    KVCache.invalidate(remoteSchemaCacheKeys.graphqlQuery(remoteSchema.id)),
+    KVCache.invalidatePrefix(remoteSchemaCacheKeys.schemaDetailsPrefix(remoteSchema.id)),
+  ]);
+}
+
+/**
+ * Re-introspect one remote schema and store it when it changed
+ */
+async function refreshRemoteSchema(remoteSchema: any): Promise<"updated" | "unchanged" | "skipped"> {
+  // Loaded one schema at a time, since stored schemas can be large
+  const stored = await DB.getRawSchemaData(remoteSchema.id);
+  if (!stored) {
+    throw new Error("Failed to load the stored schema");
+  }
+  const schemaData = stored.schemaData || {};
+  // SDL schemas are published by their owners rather than introspected, so they are left as they are
+  if (getSchemaSDL(schemaData) !== null) {
+    return "skipped";
+  }
+
+  const newRawSchema = await introspectEndpoint(remoteSchema.endpoint, remoteSchema.headers);
+  const oldRawSchema = getIntrospectionSchema(schemaData.rawSchema);
+  // Compared by their differences rather than as JSON, since jsonb does not keep the key order of stored objects
+  const changes = oldRawSchema ? diffSchemas(oldRawSchema, newRawSchema) : [];
+  if (oldRawSchema && changes.length === 0) {
+    return "unchanged";
+  }
+
+  const counts = { breaking: 0, dangerous: 0, safe: 0 };
+  changes.forEach((change) => counts[change.severity]++);
+
+  const entry: SchemaChangeLogEntry = {
+    checkedAt: new Date().toISOString(),
+    counts,
+    changes: changes.slice(0, MAX_CHANGES_PER_ENTRY),
+    ...(oldRawSchema ? {} : { initial: true }),
+  };
+  const patch = {
+    rawSchema: newRawSchema,
+    rootFields: getRootFields(newRawSchema),
+  };
+
+  // Change logs written into schemaData by earlier versions are dropped with the update
+  if (!(await DB.updateRemoteSchemaData(remoteSchema.id, patch, ["changeLog"]))) {
+    throw new Error("Failed to store the updated schema");
+  }
+  await invalidateSchemaCache(remoteSchema);
+  // The schema is already updated, so a missing change log entry is only reported
+  if (!(await DB.appendSchemaChangeLog(remoteSchema.id, entry, MAX_CHANGE_LOG_ENTRIES))) {
+    console.error(`Failed to record the change log of remote schema ${remoteSchema.id}`);
+  }
+
+  if (counts.breaking > 0) {
+    console.warn(
+      `Breaking changes in remote schema ${remoteSchema.name} (${remoteSchema.id}):`,
+      changes.filter((change) => change.severity === "breaking").map((change) => change.description)
+    );
+  }
+  console.log(`Remote schema ${remoteSchema.id} updated: ${counts.breaking} breaking, ${counts.dangerous} dangerous, ${counts.safe} safe`);
+  return "updated";
+}
+
+/**
+ * Re-introspect all remote schemas that have an endpoint
+ * A schema that cannot be introspected keeps its stored version and does not stop the others
+ */
+export async function refreshRemoteSchemas(): Promise<SchemaRefreshSummary> {
+  const remoteSchemas = await DB.getRemoteSchemasWithEndpoint();
+  const summary: SchemaRefreshSummary = { checked: remoteSchemas.length, updated: 0, unchanged: 0, skipped: 0, failed: 0 };
+
+  const pending = remoteSchemas[Symbol.iterator]();
+  const worker = async () => {
+    for (const remoteSchema of pending) {
+      try {
+        summary[await refreshRemoteSchema(remoteSchema)]++;
+      } catch (error) {
+        summary.failed++;
+        console.error(`Failed to refresh remote schema ${remoteSchema.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: REFRESH_CONCURRENCY }, worker));
+
+  console.log("Remote schema refresh finished:", summary);
+  return summary;
+}
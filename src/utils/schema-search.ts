@@ -0,0 +1,275 @@
+/**
+ * Keyword and fuzzy search over the fields and types of remote GraphQL schemas
+ */
+
+// Remote schema fields used by the search
+export interface SearchableRemoteSchema {
+  id: string;
+  name: string;
+  description?: string;
+  schemaData?: {
+    rootFields?: { name: string; description?: string }[];
+    rawSchema?: any;
+  };
+  project?: { id: string; name: string };
+}
+
+// A field or type matching a search, with the remote schema it belongs to
+export interface SchemaSearchMatch {
+  remoteSchemaId: string;
+  remoteSchemaName: string;
+  project?: { id: string; name: string };
+  kind: "field" | "type";
+  name: string;
+  // Type declaring the field; Query, Mutation or Subscription for root fields
+  parentType?: string;
+  // Set for root fields, which can be queried directly
+  operation?: "query" | "mutation" | "subscription";
+  // Return type of a field
+  type?: string;
+  // GraphQL kind of a type (OBJECT, ENUM, ...)
+  typeKind?: string;
+  description: string;
+  args?: string[];
+  score: number;
+  matchedOn: string[];
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+// Schemas with more root fields than this are only summarized in prompts
+export const PROMPT_ROOT_FIELD_LIMIT = 20;
+const DESCRIPTION_MAX_LENGTH = 200;
+const BUILT_IN_SCALARS = new Set(["String", "Int", "Float", "Boolean", "ID"]);
+// Root fields are the entry points of every query, so they rank above nested fields
+const ROOT_FIELD_BOOST = 1.25;
+
+interface SearchEntry {
+  match: Omit<SchemaSearchMatch, "score" | "matchedOn">;
+  compactName: string;
+  nameWords: string[];
+  argWords: string[];
+  typeWords: string[];
+  description: string;
+}
+
+/**
+ * Split an identifier or text into lowercase words, breaking camelCase and snake_case
+ */
+function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9\u4e00-\u9fff]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Levenshtein distance between two words, giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether a search term is a likely misspelling of a word
+ */
+function isFuzzyMatch(term: string, word: string): boolean {
+  const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  return maxDistance > 0 && editDistance(term, word, maxDistance) <= maxDistance;
+}
+
+function getNamedTypeName(type: any): string {
+  return type.ofType ? getNamedTypeName(type.ofType) : type.name;
+}
+
+function getTypeName(type: any): string {
+  if (type.kind === "NON_NULL") {
+    return `${getTypeName(type.ofType)}!`;
+  }
+  if (type.kind === "LIST") {
+    return `[${getTypeName(type.ofType)}]`;
+  }
+  return type.name;
+}
+
+function truncateDescription(description?: string | null): string {
+  if (!description) {
+    return "";
+  }
+  return description.length > DESCRIPTION_MAX_LENGTH ? `${description.slice(0, DESCRIPTION_MAX_LENGTH)}...` : description;
+}
+
+/**
+ * Build the search entries of a remote schema from its stored introspection
+ */
+function buildSearchEntries(remoteSchema: SearchableRemoteSchema): SearchEntry[] {
+  const rawSchema = remoteSchema.schemaData?.rawSchema;
+  const schema = rawSchema?.__schema || rawSchema;
+  if (!schema || !Array.isArray(schema.types)) {
+    return [];
+  }
+
+  const operations = new Map<string, SchemaSearchMatch["operation"]>([
+    [schema.queryType?.name || "Query", "query"],
+    [schema.mutationType?.name || "Mutation", "mutation"],
+    [schema.subscriptionType?.name || "Subscription", "subscription"],
+  ]);
+  const source = {
+    remoteSchemaId: remoteSchema.id,
+    remoteSchemaName: remoteSchema.name,
+    ...(remoteSchema.project ? { project: remoteSchema.project } : {}),
+  };
+
+  const entries: SearchEntry[] = [];
+  for (const type of schema.types) {
+    // Introspection types and built-in scalars are the same in every schema and never worth returning
+    if (!type?.name || type.name.startsWith("__") || BUILT_IN_SCALARS.has(type.name)) {
+      continue;
+    }
+    const operation = operations.get(type.name);
+    if (!operation) {
+      entries.push({
+        match: { ...source, kind: "type", name: type.name, typeKind: type.kind, description: truncateDescription(type.description) },
+        compactName: type.name.toLowerCase(),
+        nameWords: splitWords(type.name),
+        argWords: [],
+        typeWords: [],
+        description: (type.description || "").toLowerCase(),
+      });
+    }
+    for (const field of type.fields || []) {
+      const args: any[] = field.args || [];
+      entries.push({
+        match: {
+          ...source,
+          kind: "field",
+          name: field.name,
+          parentType: type.name,
+          ...(operation ? { operation } : {}),
+          type: getTypeName(field.type),
+          description: truncateDescription(field.description),
+          ...(args.length > 0 ? { args: args.map((arg) => `${arg.name}: ${getTypeName(arg.type)}`) } : {}),
+        },
+        compactName: field.name.toLowerCase(),
+        nameWords: splitWords(field.name),
+        argWords: args.flatMap((arg) => [arg.name.toLowerCase(), ...splitWords(arg.name)]),
+        typeWords: splitWords(`${getNamedTypeName(field.type)} ${operation ? "" : type.name}`),
+        description: (field.description || "").toLowerCase(),
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Score one search term against an entry; the best matching part of the entry counts
+ */
+function scoreTerm(term: string, entry: SearchEntry): { score: number; matchedOn: string } | null {
+  if (entry.compactName === term) {
+    return { score: 10, matchedOn: "name" };
+  }
+  if (entry.nameWords.includes(term)) {
+    return { score: 7, matchedOn: "name" };
+  }
+  if (term.length >= 3 && entry.compactName.startsWith(term)) {
+    return { score: 5, matchedOn: "name" };
+  }
+  if (term.length >= 3 && entry.compactName.includes(term)) {
+    return { score: 4, matchedOn: "name" };
+  }
+  if (isFuzzyMatch(term, entry.compactName) || entry.nameWords.some((word) => isFuzzyMatch(term, word))) {
+    return { score: 3, matchedOn: "name" };
+  }
+  if (entry.argWords.includes(term) || (term.length >= 3 && entry.argWords.some((word) => word.includes(term)))) {
+    return { score: 3, matchedOn: "args" };
+  }
+  if (entry.typeWords.includes(term)) {
+    return { score: 2, matchedOn: "type" };
+  }
+  if ((term.length >= 3 || /[\u4e00-\u9fff]/.test(term)) && entry.description.includes(term)) {
+    return { score: 1.5, matchedOn: "description" };
+  }
+  if (entry.argWords.some((word) => isFuzzyMatch(term, word))) {
+    return { score: 1, matchedOn: "args" };
+  }
+  return null;
+}
+
+/**
+ * Search the fields, arguments and types of remote schemas
+ * Every term of the query is matched against names (exactly, by prefix, by substring or with a small typo),
+ * argument names, type names and descriptions; results are ranked by score, favouring entries that match every term
+ */
+export function searchSchemas(
+  remoteSchemas: SearchableRemoteSchema[],
+  query: string,
+  limit: number = DEFAULT_SEARCH_LIMIT
+): SchemaSearchMatch[] {
+  const terms = [...new Set(query.split(/\s+/).flatMap((word) => [word.toLowerCase(), ...splitWords(word)]))].filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+  // Words of the query, without the compound forms added above, decide how much of the query an entry covers
+  const queryWords = [...new Set(splitWords(query))];
+  const maxResults = Math.min(Math.max(Math.floor(limit), 1), MAX_SEARCH_LIMIT);
+
+  const matches: SchemaSearchMatch[] = [];
+  for (const remoteSchema of remoteSchemas) {
+    for (const entry of buildSearchEntries(remoteSchema)) {
+      let score = 0;
+      const matchedOn = new Set<string>();
+      const matchedWords = new Set<string>();
+      for (const term of terms) {
+        const result = scoreTerm(term, entry);
+        if (result) {
+          score += result.score;
+          matchedOn.add(result.matchedOn);
+          matchedWords.add(term);
+        }
+      }
+      if (score === 0) {
+        continue;
+      }
+      const coverage = queryWords.length > 0
+        ? queryWords.filter((word) => matchedWords.has(word)).length / queryWords.length
+        : 1;
+      score *= 0.5 + 0.5 * coverage;
+      if (entry.match.operation) {
+        score *= ROOT_FIELD_BOOST;
+      }
+      matches.push({ ...entry.match, score: Math.round(score * 100) / 100, matchedOn: [...matchedOn] });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, maxResults);
+}
+
+/**
+ * Describe the root fields of a remote schema for a prompt
+ * Small schemas list their fields; larger ones are summarized and left to the search tool
+ */
+export function formatRootFieldsSummary(remoteSchema: SearchableRemoteSchema, searchToolName: string): string {
+  const rootFields = remoteSchema.schemaData?.rootFields || [];
+  if (rootFields.length <= PROMPT_ROOT_FIELD_LIMIT) {
+    return rootFields.map((field) => `  - ${field.name}${field.description ? `: ${field.description}` : ""}`).join("\n");
+  }
+  return `  ${rootFields.length} root fields, too many to list. Use ${searchToolName} to find the fields you need.`;
+}
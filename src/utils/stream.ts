@@ -1,6 +1,7 @@
 /**
  * Streaming response utilities for handling SSE format
  */
+import type { ChatUsage } from "./usage";
 
 interface StreamErrorOptions {
   message: string;
@@ -48,6 +49,196 @@ export function createStreamErrorResponse(options: StreamErrorOptions): Response
   );
 }
 
+const STREAM_ID_PATTERN = /^chatcmpl-[0-9a-z]+_([A-Za-z0-9_-]+)$/;
+
+/**
+ * Encode a project ID for use inside generated IDs (base64url)
+ */
+export function encodeProjectId(projectId: string): string {
+  const binary = String.fromCharCode(...new TextEncoder().encode(projectId));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decode a project ID encoded by encodeProjectId, null when it is not valid
+ */
+export function decodeProjectId(encoded: string): string | null {
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate an ID for a chat completion stream
+ * Streams of a project's Chat DO carry the project ID, so they can be resumed without naming the project
+ */
+export function createStreamId(projectId: string | null = null): string {
+  // The random suffix keeps stream IDs unguessable, since they are used to resume streams
+  const id = "chatcmpl-" + Date.now().toString(36) + crypto.randomUUID().replace(/-/g, "");
+  return projectId ? `${id}_${encodeProjectId(projectId)}` : id;
+}
+
+/**
+ * Read the project ID from a stream ID, null for streams of the global chat
+ */
+export function getStreamProjectId(streamId: string): string | null {
+  const match = streamId.match(STREAM_ID_PATTERN);
+  return match ? decodeProjectId(match[1]) : null;
+}
+
+// Optional parts of a chat completion stream
+export interface ChatStreamOptions {
+  includeUsage?: boolean;
+  includeReasoning?: boolean;
+  includeToolEvents?: boolean;
+}
+
+// Destination of raw SSE events
+export interface ChatStreamSink {
+  send(data: string): void;
+}
+
+// Complete client tool call in the OpenAI format
+export interface ToolCallDelta {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+// Creates the writer of a stream, so endpoints with another wire format can reuse the agent run
+export type ChatStreamWriterFactory = (
+  sink: ChatStreamSink,
+  id: string,
+  model: string,
+  options: ChatStreamOptions
+) => ChatStreamWriter;
+
+/**
+ * Writes OpenAI-format chat completion chunks to an SSE stream
+ */
+export class ChatStreamWriter {
+  constructor(
+    protected sink: ChatStreamSink,
+    readonly id: string,
+    public model: string,
+    protected options: ChatStreamOptions = {}
+  ) {}
+
+  /**
+   * Write raw SSE data
+   */
+  write(data: string): void {
+    this.sink.send(data);
+  }
+
+  /**
+   * Write a chunk with an arbitrary delta
+   */
+  chunk(delta: Record<string, any>, finishReason: string | null = null): void {
+    const data = {
+      id: this.id,
+      object: "chat.completion.chunk",
+      created: Math.floor(Date.now() / 1000),
+      model: this.model,
+      choices: [
+        {
+          index: 0,
+          delta,
+          finish_reason: finishReason,
+        },
+      ],
+    };
+    this.write(`data: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Write a content delta
+   */
+  content(text: string): void {
+    this.chunk(text ? { content: text } : {});
+  }
+
+  /**
+   * Write a reasoning delta, kept out of `content` so clients receive only the answer there
+   */
+  reasoning(text: string): void {
+    if (!this.options.includeReasoning || !text) {
+      return;
+    }
+    this.chunk({ reasoning_content: text });
+  }
+
+  /**
+   * Write a client tool call the caller has to execute
+   */
+  toolCall(index: number, call: ToolCallDelta): void {
+    this.chunk({ tool_calls: [{ index, ...call }] });
+  }
+
+  /**
+   * Write a named SSE event for tool activity
+   * OpenAI SDK clients fail on named events, so they are only written when the client opts in with `withToolEvent`
+   */
+  event(name: string, data: unknown): void {
+    if (!this.options.includeToolEvents) {
+      return;
+    }
+    this.write(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Write the final chunk carrying the finish reason
+   */
+  finish(finishReason: string): void {
+    this.chunk({}, finishReason);
+  }
+
+  /**
+   * Write the usage chunk requested via `stream_options.include_usage`
+   */
+  usage(usage: ChatUsage): void {
+    if (!this.options.includeUsage) {
+      return;
+    }
+    const data = {
+      id: this.id,
+      object: "chat.completion.chunk",
+      created: Math.floor(Date.now() / 1000),
+      model: this.model,
+      choices: [],
+      usage,
+    };
+    this.write(`data: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Write response metadata as a named SSE event, only for clients that opted in to named events
+   */
+  metadata(data: Record<string, unknown>): void {
+    if (!this.options.includeToolEvents) {
+      return;
+    }
+    this.write(`event: metadata\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Write an error event in the OpenAI streaming error format
+   */
+  error(error: { message: string; type: string; code: string }): void {
+    this.write(`data: ${JSON.stringify({ error })}\n\n`);
+  }
+
+  /**
+   * Write the stream terminator
+   */
+  done(): void {
+    this.write("data: [DONE]\n\n");
+  }
+}
+
 /**
  * Create a JSON error response for non-streaming requests
  */
@@ -83,4 +274,19 @@ export function createErrorResponse(isStream: boolean, options: StreamErrorOptio
   return isStream 
     ? createStreamErrorResponse(options)
     : createJsonErrorResponse(options);
-} 
\ No newline at end of file
+}
+
+/**
+ * Read the message of an error response created by the chat completion handler
+ * Errors of streaming requests arrive as an SSE chunk, all others as a JSON error
+ */
+export async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text();
+  try {
+    const data = JSON.parse(text.startsWith("data: ") ? text.slice(6, text.indexOf("\n")) : text);
+    return data.error?.message || data.choices?.[0]?.delta?.content?.replace(/^Error: /, "") || text;
+  } catch {
+    // Plain text errors are returned as they are
+    return text;
+  }
+}
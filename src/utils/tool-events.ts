@@ -0,0 +1,77 @@
+/**
+ * Tool activity reported to clients as structured events
+ */
+
+// Tool event sent as `event: tool_call` / `event: tool_result`
+export interface ToolEvent {
+  id: string;
+  name: string;
+  arguments: unknown;
+  status: "running" | "success" | "error";
+  duration_ms?: number;
+  result?: unknown;
+  error?: string;
+}
+
+interface PendingToolCall {
+  name: string;
+  args: unknown;
+  startedAt: number;
+}
+
+/**
+ * Tracks server tool calls so their results can be reported with duration and status
+ */
+export class ToolEventTracker {
+  private pending = new Map<string, PendingToolCall>();
+
+  /**
+   * Record a tool call and build its `tool_call` event
+   */
+  start(part: { toolCallId: string; toolName: string; args: unknown }): ToolEvent {
+    this.pending.set(part.toolCallId, { name: part.toolName, args: part.args, startedAt: Date.now() });
+    return {
+      id: part.toolCallId,
+      name: part.toolName,
+      arguments: part.args,
+      status: "running",
+    };
+  }
+
+  /**
+   * Build the `tool_result` event for a finished tool call
+   * Tools report failures as `{ error: true }` results rather than throwing
+   */
+  finish(part: { toolCallId: string; toolName: string; args?: unknown; result: unknown }): ToolEvent {
+    const call = this.pending.get(part.toolCallId);
+    this.pending.delete(part.toolCallId);
+    const failed = (part.result as { error?: unknown } | null)?.error === true;
+    return {
+      id: part.toolCallId,
+      name: part.toolName,
+      arguments: call?.args ?? part.args,
+      status: failed ? "error" : "success",
+      duration_ms: call ? Date.now() - call.startedAt : undefined,
+      result: part.result,
+    };
+  }
+
+  /**
+   * Build the `tool_result` event for a tool call that threw
+   */
+  fail(toolCallId: string, message: string): ToolEvent | null {
+    const call = this.pending.get(toolCallId);
+    if (!call) {
+      return null;
+    }
+    this.pending.delete(toolCallId);
+    return {
+      id: toolCallId,
+      name: call.name,
+      arguments: call.args,
+      status: "error",
+      duration_ms: Date.now() - call.startedAt,
+      error: message,
+    };
+  }
+}
@@ -1,5 +1,18 @@
+import {
+  buildClientSchema,
+  getOperationAST,
+  getVariableValues,
+  parse,
+  validate,
+  GraphQLError,
+  type DocumentNode,
+  type GraphQLFormattedError,
+} from "graphql";
 import { KVCache } from "./kv";
 import { DB } from "./db";
+import { handleHTTPRequest } from "../ai/HttpTool";
+import { searchSchemas, formatRootFieldsSummary, type SchemaSearchMatch } from "./schema-search";
+import { remoteSchemaCacheKeys } from "./schema-data";
 
 /**
  * 生成HTTP请求的缓存键
@@ -35,82 +48,193 @@ export function isNonNullType(type: any): boolean {
   return type.kind === 'NON_NULL';
 }
 
+// 嵌套类型默认展开的层数
+export const DEFAULT_TYPE_EXPANSION_DEPTH = 3;
+export const MAX_TYPE_EXPANSION_DEPTH = 6;
+// Schema详情输出的大小上限（JSON字符数）：默认值和可设置的范围
+export const DEFAULT_SCHEMA_DETAILS_MAX_SIZE = 40000;
+export const MIN_SCHEMA_DETAILS_MAX_SIZE = 2000;
+export const MAX_SCHEMA_DETAILS_MAX_SIZE = 200000;
+
+/**
+ * 一次类型展开中共享的状态
+ */
+interface TypeExpansionContext {
+  typeMap: Map<string, any>;
+  // 最多展开的命名类型层数，1表示只列出类型自身的字段
+  maxDepth: number;
+  // 正在展开的祖先类型，用于检测循环引用
+  ancestors: Set<string>;
+  // 已经展开过的类型，再次出现时只返回名称
+  expanded: Set<string>;
+}
+
+function createTypeExpansionContext(allTypes: any[], maxDepth: number): TypeExpansionContext {
+  return {
+    typeMap: new Map(allTypes.map((t: any) => [t.name, t])),
+    maxDepth,
+    ancestors: new Set(),
+    expanded: new Set()
+  };
+}
+
 /**
- * 获取类型的详细信息，包括字段结构
+ * 获取字段、参数或枚举值的废弃信息，未废弃时返回空对象
  */
-export function getTypeDetails(type: any, allTypes: any[]): any {
+function getDeprecationInfo(item: any): { isDeprecated?: true; deprecationReason?: string } {
+  return item.isDeprecated ? { isDeprecated: true, deprecationReason: item.deprecationReason || '' } : {};
+}
+
+/**
+ * 获取包装类型（NON_NULL、LIST）内部的命名类型
+ */
+function getNamedType(type: any): any {
+  return type.ofType ? getNamedType(type.ofType) : type;
+}
+
+/**
+ * 获取嵌套字段或参数的类型详情，标量类型不展开
+ */
+function getNestedTypeDetails(type: any, context: TypeExpansionContext, depth: number): { typeDetails?: any } {
+  const namedType = getNamedType(type);
+  const definition = context.typeMap.get(namedType.name);
+  if (!definition || definition.kind === 'SCALAR') {
+    return {};
+  }
+  return { typeDetails: expandType(type, context, depth) };
+}
+
+/**
+ * 获取参数或输入字段的详细信息
+ */
+function getInputValueDetails(value: any, context: TypeExpansionContext, depth: number): any {
+  return {
+    name: value.name,
+    description: value.description || '',
+    type: getFullTypeName(value.type),
+    isRequired: isNonNullType(value.type),
+    ...(value.defaultValue != null ? { defaultValue: value.defaultValue } : {}),
+    ...getDeprecationInfo(value),
+    ...getNestedTypeDetails(value.type, context, depth)
+  };
+}
+
+/**
+ * 获取对象或接口字段的详细信息，包括参数
+ */
+function getObjectFieldDetails(field: any, context: TypeExpansionContext, depth: number): any {
+  return {
+    name: field.name,
+    description: field.description || '',
+    type: getFullTypeName(field.type),
+    isRequired: isNonNullType(field.type),
+    ...getDeprecationInfo(field),
+    ...(field.args && field.args.length > 0
+      ? { args: field.args.map((arg: any) => getInputValueDetails(arg, context, depth)) }
+      : {}),
+    ...getNestedTypeDetails(field.type, context, depth)
+  };
+}
+
+/**
+ * 递归展开类型
+ * depth为当前类型之上已展开的命名类型层数，达到maxDepth后只返回类型名称
+ * 不展开的类型带有omitted标记：circular（循环引用）、duplicate（已在结果中展开过）或maxDepth（超出展开层数）
+ */
+function expandType(type: any, context: TypeExpansionContext, depth: number): any {
   if (type.kind === 'NON_NULL') {
-    const innerType = getTypeDetails(type.ofType, allTypes);
+    const innerType = expandType(type.ofType, context, depth);
     return {
       ...innerType,
       isRequired: true
     };
   }
   if (type.kind === 'LIST') {
-    const innerType = getTypeDetails(type.ofType, allTypes);
+    const innerType = expandType(type.ofType, context, depth);
     return {
       kind: 'LIST',
       name: `[${innerType.name}]`,
       ofType: innerType
     };
   }
-  
+
   // 查找类型定义
-  const typeDefinition = allTypes.find((t: any) => t.name === type.name);
-  
+  const typeDefinition = context.typeMap.get(type.name);
+
   if (!typeDefinition) {
     return {
       kind: type.kind || 'SCALAR',
       name: type.name
     };
   }
-  
-  // 如果是对象类型，返回字段信息
-  if (typeDefinition.kind === 'OBJECT' && typeDefinition.fields) {
+
+  const kind = typeDefinition.kind || 'SCALAR';
+  if (kind === 'SCALAR') {
     return {
-      kind: 'OBJECT',
+      kind,
       name: type.name,
-      fields: typeDefinition.fields.map((field: any) => ({
-        name: field.name,
-        description: field.description || '',
-        type: getFullTypeName(field.type),
-        isRequired: isNonNullType(field.type)
-      }))
+      description: typeDefinition.description || ''
     };
   }
-  
-  // 如果是枚举类型
-  if (typeDefinition.kind === 'ENUM' && typeDefinition.enumValues) {
-    return {
-      kind: 'ENUM',
-      name: type.name,
-      enumValues: typeDefinition.enumValues.map((value: any) => ({
-        name: value.name,
-        description: value.description || ''
-      }))
-    };
+
+  if (context.ancestors.has(type.name)) {
+    return { kind, name: type.name, omitted: 'circular' };
   }
-  
-  // 如果是输入类型
-  if (typeDefinition.kind === 'INPUT_OBJECT' && typeDefinition.inputFields) {
-    return {
-      kind: 'INPUT_OBJECT',
+  if (context.expanded.has(type.name)) {
+    return { kind, name: type.name, omitted: 'duplicate' };
+  }
+  // 枚举没有嵌套类型，不受展开层数限制
+  if (kind !== 'ENUM' && depth >= context.maxDepth) {
+    return { kind, name: type.name, omitted: 'maxDepth' };
+  }
+
+  context.ancestors.add(type.name);
+  context.expanded.add(type.name);
+  try {
+    const details: any = {
+      kind,
       name: type.name,
-      inputFields: typeDefinition.inputFields.map((field: any) => ({
-        name: field.name,
-        description: field.description || '',
-        type: getFullTypeName(field.type),
-        isRequired: isNonNullType(field.type)
-      }))
+      description: typeDefinition.description || ''
     };
+
+    // 对象和接口类型，返回字段信息
+    if ((kind === 'OBJECT' || kind === 'INTERFACE') && typeDefinition.fields) {
+      details.fields = typeDefinition.fields.map((field: any) => getObjectFieldDetails(field, context, depth + 1));
+      if (typeDefinition.interfaces && typeDefinition.interfaces.length > 0) {
+        details.interfaces = typeDefinition.interfaces.map((item: any) => item.name);
+      }
+    }
+
+    // 接口的实现类型和联合类型的成员，查询时需要使用inline fragment
+    if ((kind === 'INTERFACE' || kind === 'UNION') && typeDefinition.possibleTypes) {
+      details.possibleTypes = typeDefinition.possibleTypes.map((item: any) => expandType(item, context, depth + 1));
+    }
+
+    // 枚举类型
+    if (kind === 'ENUM' && typeDefinition.enumValues) {
+      details.enumValues = typeDefinition.enumValues.map((value: any) => ({
+        name: value.name,
+        description: value.description || '',
+        ...getDeprecationInfo(value)
+      }));
+    }
+
+    // 输入类型
+    if (kind === 'INPUT_OBJECT' && typeDefinition.inputFields) {
+      details.inputFields = typeDefinition.inputFields.map((field: any) => getInputValueDetails(field, context, depth + 1));
+    }
+
+    return details;
+  } finally {
+    context.ancestors.delete(type.name);
   }
-  
-  // 默认返回基本信息
-  return {
-    kind: typeDefinition.kind || 'SCALAR',
-    name: type.name,
-    description: typeDefinition.description || ''
-  };
+}
+
+/**
+ * 获取类型的详细信息，递归展开嵌套的对象、接口、联合和输入类型
+ */
+export function getTypeDetails(type: any, allTypes: any[], maxDepth: number = DEFAULT_TYPE_EXPANSION_DEPTH): any {
+  return expandType(type, createTypeExpansionContext(allTypes, maxDepth), 0);
 }
 
 /**
@@ -140,7 +264,7 @@ export async function getSchemasByProjectId(projectId: string, env?: any) {
     }
     
     return await KVCache.wrap(
-      `remoteSchemas_project_${projectId}`,
+      remoteSchemaCacheKeys.toolProject(projectId),
       async () => {
         return await DB.getRemoteSchemasFromProjectId(projectId);
       },
@@ -162,12 +286,80 @@ export interface SchemaDetailsResult {
   success: boolean;
   error?: string;
   fieldDetails?: any[];
+  // 实际展开的层数，输出超出大小上限时会小于请求的层数
+  expansionDepth?: number;
+  // 不展开嵌套类型仍超出大小上限时被省略的字段
+  omittedFields?: string[];
+}
+
+/**
+ * 获取根字段（查询或mutation）的详细信息
+ */
+function getRootFieldDetails(field: any, context: TypeExpansionContext, isMutation: boolean): any {
+  // 提取参数信息
+  const args = field.args && field.args.length > 0
+    ? field.args.map((arg: any) => ({
+        name: arg.name,
+        description: arg.description || '',
+        type: getFullTypeName(arg.type),
+        isRequired: isNonNullType(arg.type),
+        ...(arg.defaultValue != null ? { defaultValue: arg.defaultValue } : {}),
+        ...getDeprecationInfo(arg),
+        typeDetails: expandType(arg.type, context, 0)
+      }))
+    : [];
+
+  return {
+    name: field.name,
+    description: field.description || '',
+    returnType: getFullTypeName(field.type),
+    returnTypeDetails: expandType(field.type, context, 0),
+    args,
+    ...getDeprecationInfo(field),
+    ...(isMutation ? { isMutation: true } : {})
+  };
+}
+
+/**
+ * 在大小上限内展开根字段
+ * 超出上限时逐层减少展开层数；不展开嵌套类型仍超出时，从末尾开始省略字段
+ */
+function getFittedFieldDetails(
+  fields: any[],
+  allTypes: any[],
+  isMutation: boolean,
+  maxDepth: number,
+  maxSize: number
+): Pick<SchemaDetailsResult, 'fieldDetails' | 'expansionDepth' | 'omittedFields'> {
+  for (let depth = maxDepth; depth > 0; depth--) {
+    const context = createTypeExpansionContext(allTypes, depth);
+    const fieldDetails = fields.map((field) => getRootFieldDetails(field, context, isMutation));
+    if (JSON.stringify(fieldDetails).length <= maxSize) {
+      return { fieldDetails, expansionDepth: depth };
+    }
+  }
+
+  const context = createTypeExpansionContext(allTypes, 0);
+  const fieldDetails = fields.map((field) => getRootFieldDetails(field, context, isMutation));
+  const omittedFields: string[] = [];
+  while (fieldDetails.length > 1 && JSON.stringify(fieldDetails).length > maxSize) {
+    omittedFields.unshift(fieldDetails.pop().name);
+  }
+  return {
+    fieldDetails,
+    expansionDepth: 0,
+    ...(omittedFields.length > 0 ? { omittedFields } : {})
+  };
 }
 
 export async function handleSchemaDetails(params: {
   remoteSchemaId?: string;
   marketplaceId?: string;
   queryFields: string[];
+  // 嵌套类型展开的层数，默认DEFAULT_TYPE_EXPANSION_DEPTH
+  maxDepth?: number;
+  // 输出的大小上限（JSON字符数），默认DEFAULT_SCHEMA_DETAILS_MAX_SIZE
+  maxSize?: number;
   env?: any;
 }): Promise<SchemaDetailsResult> {
   try {
@@ -179,6 +371,12 @@ export async function handleSchemaDetails(params: {
         error: '参数错误：需要提供remoteSchemaId或marketplaceId，以及queryFields数组'
       };
     }
+
+    const maxDepth = Math.min(Math.max(Math.floor(params.maxDepth ?? DEFAULT_TYPE_EXPANSION_DEPTH), 1), MAX_TYPE_EXPANSION_DEPTH);
+    const maxSize = Math.min(
+      Math.max(Math.floor(params.maxSize ?? DEFAULT_SCHEMA_DETAILS_MAX_SIZE), MIN_SCHEMA_DETAILS_MAX_SIZE),
+      MAX_SCHEMA_DETAILS_MAX_SIZE
+    );
     
     // 初始化KV缓存和DB
     if (env?.CHAT_CACHE) {
@@ -194,7 +392,8 @@ export async function handleSchemaDetails(params: {
     const sourceId = marketplaceId || remoteSchemaId;
     
     // 构建缓存键
-    const cacheKey = `schema_${sourceType}_${sourceId}_fields_${queryFields.join(',')}_v1`;
+    // remoteSchema的键以remoteSchemaCacheKeys.schemaDetailsPrefix开头，schema更新时按前缀清除
+    const cacheKey = `schema_${sourceType}_${sourceId}_fields_${queryFields.join(',')}_v2`;
     
     // 从缓存或数据库获取schema数据
     const schemaData = await KVCache.wrap(
@@ -243,71 +442,27 @@ export async function handleSchemaDetails(params: {
     }
     
     // 过滤请求的查询字段
-    const fieldDetails = queryType.fields
-      .filter((field: any) => queryFields.includes(field.name))
-      .map((field: any) => {
-        // 提取参数信息
-        const args = field.args && field.args.length > 0
-          ? field.args.map((arg: any) => ({
-              name: arg.name,
-              description: arg.description || '',
-              type: getFullTypeName(arg.type),
-              isRequired: isNonNullType(arg.type),
-              typeDetails: getTypeDetails(arg.type, schemaData.types)
-            }))
-          : [];
-        
-        return {
-          name: field.name,
-          description: field.description || '',
-          returnType: getFullTypeName(field.type),
-          returnTypeDetails: getTypeDetails(field.type, schemaData.types),
-          args
-        };
-      });
+    let fields = queryType.fields.filter((field: any) => queryFields.includes(field.name));
+    let isMutation = false;
     
     // 如果没有找到任何字段，可能是mutation字段
-    if (fieldDetails.length === 0) {
+    if (fields.length === 0) {
       // 尝试在Mutation类型中查找
       const mutationTypeName = schemaData.mutationType?.name || 'Mutation';
       const mutationType = schemaData.types.find((type: any) => type.name === mutationTypeName);
       
       if (mutationType && mutationType.fields) {
-        const mutationFieldDetails = mutationType.fields
-          .filter((field: any) => queryFields.includes(field.name))
-          .map((field: any) => {
-            const args = field.args && field.args.length > 0
-              ? field.args.map((arg: any) => ({
-                  name: arg.name,
-                  description: arg.description || '',
-                  type: getFullTypeName(arg.type),
-                  isRequired: isNonNullType(arg.type),
-                  typeDetails: getTypeDetails(arg.type, schemaData.types)
-                }))
-              : [];
-            
-            return {
-              name: field.name,
-              description: field.description || '',
-              returnType: getFullTypeName(field.type),
-              returnTypeDetails: getTypeDetails(field.type, schemaData.types),
-              args,
-              isMutation: true
-            };
-          });
-        
-        if (mutationFieldDetails.length > 0) {
-          return {
-            success: true,
-            fieldDetails: mutationFieldDetails
-          };
+        const mutationFields = mutationType.fields.filter((field: any) => queryFields.includes(field.name));
+        if (mutationFields.length > 0) {
+          fields = mutationFields;
+          isMutation = true;
         }
       }
     }
     
     return {
       success: true,
-      fieldDetails
+      ...getFittedFieldDetails(fields, schemaData.types, isMutation, maxDepth, maxSize)
     };
   } catch (error) {
     console.error('Schema Details Error:', error);
@@ -318,6 +473,215 @@ export async function handleSchemaDetails(params: {
   }
 }
 
+// 按x-project-id转发到项目remoteSchema的GraphQL网关
+export const GRAPHQL_GATEWAY_URL = 'https://graphql-main-worker.iotex-dev.workers.dev/graphql';
+
+/**
+ * 执行GraphQL查询
+ */
+export interface GraphQLQueryResult {
+  success: boolean;
+  error?: string;
+  // 查询未通过校验时的错误，此时请求不会发送
+  validationErrors?: GraphQLFormattedError[];
+  // 远程服务返回的GraphQL响应（data和errors）
+  response?: any;
+}
+
+/**
+ * 根据存储的introspection校验GraphQL查询
+ * 依次检查语法、schema校验、操作选择和变量，返回第一阶段发现的全部错误
+ */
+export function validateGraphQLQuery(
+  rawSchema: any,
+  query: string,
+  variables?: Record<string, any>,
+  operationName?: string
+): GraphQLFormattedError[] {
+  // rawSchema可能是完整的introspection结果，也可能只是其中的__schema部分
+  const schema = buildClientSchema(rawSchema.__schema ? rawSchema : { __schema: rawSchema });
+
+  let document: DocumentNode;
+  try {
+    document = parse(query);
+  } catch (error) {
+    if (error instanceof GraphQLError) {
+      return [error.toJSON()];
+    }
+    throw error;
+  }
+
+  const errors = validate(schema, document);
+  if (errors.length > 0) {
+    return errors.map((error) => error.toJSON());
+  }
+
+  const operation = getOperationAST(document, operationName);
+  if (!operation) {
+    return [{
+      message: operationName
+        ? `Unknown operation named "${operationName}".`
+        : "Must provide operationName if query contains multiple operations.",
+    }];
+  }
+
+  const coerced = getVariableValues(schema, operation.variableDefinitions || [], variables || {}, { maxErrors: 50 });
+  return coerced.errors ? coerced.errors.map((error) => error.toJSON()) : [];
+}
+
+export async function handleGraphQLQuery(params: {
+  projectId: string;
+  remoteSchemaId: string;
+  query: string;
+  variables?: Record<string, any>;
+  operationName?: string;
+  env?: any;
+  signal?: AbortSignal;
+}): Promise<GraphQLQueryResult> {
+  try {
+    const { projectId, remoteSchemaId, query, variables, operationName, env, signal } = params;
+
+    if (!projectId || !remoteSchemaId || !query) {
+      return {
+        success: false,
+        error: '参数错误：需要提供projectId、remoteSchemaId和query'
+      };
+    }
+
+    // 初始化KV缓存和DB
+    if (env?.CHAT_CACHE) {
+      KVCache.initialize(env.CHAT_CACHE);
+    }
+
+    if (env?.DATABASE_URL) {
+      DB.initialize(env.DATABASE_URL);
+    }
+
+    // 从缓存或数据库获取所属项目和schema数据
+    const remoteSchema = await KVCache.wrap(
+      remoteSchemaCacheKeys.graphqlQuery(remoteSchemaId),
+      async () => {
+        const dbResult = await DB.getRemoteSchemaById(remoteSchemaId);
+
+        if (!dbResult) {
+          throw new Error(`remoteSchema with ID ${remoteSchemaId} not found`);
+        }
+
+        if (!dbResult.schemaData || !dbResult.schemaData.rawSchema) {
+          throw new Error(`No schema data found for remoteSchema ${dbResult.name}`);
+        }
+
+        return {
+          projectId: dbResult.projectId as string,
+          rawSchema: dbResult.schemaData.rawSchema
+        };
+      },
+      {
+        ttl: 60 * 10, // 10分钟缓存
+        logHits: true
+      }
+    );
+
+    // 只能查询当前项目的remoteSchema，与不存在的ID返回相同的错误
+    if (remoteSchema.projectId !== projectId) {
+      return {
+        success: false,
+        error: `remoteSchema with ID ${remoteSchemaId} not found`
+      };
+    }
+
+    // 校验失败时直接把错误返回给模型，不发送请求
+    const validationErrors = validateGraphQLQuery(remoteSchema.rawSchema, query, variables, operationName);
+    if (validationErrors.length > 0) {
+      return {
+        success: false,
+        error: 'GraphQL查询未通过schema校验，请求未发送',
+        validationErrors
+      };
+    }
+
+    // 与HttpTool相同，通过网关按项目转发，远程endpoint的headers不离开网关
+    const result = await handleHTTPRequest({
+      url: GRAPHQL_GATEWAY_URL,
+      method: 'POST',
+      headers: { 'x-project-id': projectId },
+      body: {
+        query,
+        ...(variables ? { variables } : {}),
+        ...(operationName ? { operationName } : {})
+      },
+      env,
+      signal
+    });
+
+    if (result.error === true) {
+      return {
+        success: false,
+        error: `GraphQL request failed${result.status ? ` (${result.status})` : ''}: ${result.message}`,
+        response: result.data
+      };
+    }
+
+    return {
+      success: true,
+      response: result.data
+    };
+  } catch (error) {
+    console.error('GraphQL Query Error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * 处理Schema搜索
+ */
+export interface SearchSchemaResult {
+  success: boolean;
+  error?: string;
+  matches?: SchemaSearchMatch[];
+}
+
+export async function handleSearchSchema(params: {
+  projectId: string;
+  query: string;
+  limit?: number;
+  env?: any;
+}): Promise<SearchSchemaResult> {
+  try {
+    const { projectId, query, limit, env } = params;
+
+    if (!projectId || !query || typeof query !== 'string') {
+      return {
+        success: false,
+        error: '参数错误：需要提供projectId和query'
+      };
+    }
+
+    // 在项目的所有remoteSchema中搜索
+    const remoteSchemas = await getSchemasByProjectId(projectId, env);
+    if (remoteSchemas.length === 0) {
+      return {
+        success: false,
+        error: "未找到Schema信息"
+      };
+    }
+
+    return {
+      success: true,
+      matches: searchSchemas(remoteSchemas, query, limit)
+    };
+  } catch (error) {
+    console.error('Search Schema Error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
 /**
  * 处理Schema列表查询
  */
@@ -361,17 +725,18 @@ export async function handleListSchemas(params: {
     if (forDescription) {
       // 为工具描述构建Schema文本
       const remoteSchemasText = remoteSchemas.map(remoteSchema => {
-        const fieldsText = remoteSchema.schemaData?.rootFields
-          ?.map((field: any) => `  - ${field.name}${field.description ? `: ${field.description}` : ''}`)
-          .join('\n') || '';
+        const fieldsText = formatRootFieldsSummary(remoteSchema, 'search_schema');
+        const descriptionText = remoteSchema.description ? `: ${remoteSchema.description}` : '';
           
-        return `- ${remoteSchema.name} (ID: ${remoteSchema.id}, used as the ${idType} parameter when calling SchemaDetailsTool), 
+        return `- ${remoteSchema.name} (ID: ${remoteSchema.id}, used as the ${idType} parameter when calling schema_details and graphql_query)${descriptionText}, 
         Graphql endpoint: https://ai-platform-graphql-frontend.onrender.com/graphql-main-worker \n${fieldsText}`;
       }).join('\n\n');
       
       const remoteSchemasInfo = `\n\nYou can access the following GraphQL APIs and queries:\n${remoteSchemasText}\n\n
 When executing any HTTP or GraphQL query, please follow this process:\n
-1. First use schema_details to get GraphQL schema information\n
+1. If the fields you need are not listed, use search_schema to find them\n
+2. Use schema_details to get GraphQL schema information\n
+3. Then use graphql_query to validate and execute the query; fix any returned validation errors and retry\n
 When use ask this tools function.you should answer the queries list to user.`;
 
       return {
@@ -385,9 +750,7 @@ When use ask this tools function.you should answer the queries list to user.`;
       const schemaInfo = `# 可用的GraphQL Schemas
 
 ${remoteSchemas.map(schema => {
-  const fieldsText = schema.schemaData.rootFields
-    .map((field: any) => `  - ${field.name}${field.description ? `: ${field.description}` : ''}`)
-    .join('\n');
+  const fieldsText = formatRootFieldsSummary(schema, 'search_schema');
     
   return `## ${schema.name} (ID: ${schema.id})
 Graphql endpoint: https://ai-platform-graphql-frontend.onrender.com/graphql-main-worker 
@@ -401,7 +764,13 @@ ${fieldsText}
    * queryFields: ["字段名1", "字段名2", ...]
 
 2. 分析返回的schema信息，了解查询字段的参数类型和返回类型
-3. 使用http_request工具发送GraphQL查询:
+3. 使用graphql_query工具校验并执行GraphQL查询，需提供:
+   * remoteSchemaId: "${schema.id}"
+   * query: "your GraphQL query"
+   * variables: { ... }（可选）
+   查询未通过校验时不会发送，请根据返回的validationErrors修改后重试
+
+4. 也可以使用http_request工具直接发送GraphQL查询:
    * url: "https://ai-platform-graphql-frontend.onrender.com/graphql-main-worker"
    * method: "POST"
    * headers: { "Content-Type": "application/json", ${marketplaceId ? `"x-marketplace-id": "${marketplaceId}"` : ''} ${projectId ? `${marketplaceId ? ', ' : ''}"x-project-id": "${projectId}"` : ''} }
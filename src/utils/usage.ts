@@ -0,0 +1,62 @@
+/**
+ * Token usage accounting in the OpenAI response format
+ */
+
+// Token usage reported in chat completion responses
+export interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Usage as reported by the AI SDK for a single step
+interface StepUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+// Providers report NaN when usage is unavailable
+function toCount(value: number | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Create an empty usage record
+ */
+export function emptyUsage(): ChatUsage {
+  return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+}
+
+/**
+ * Add one step's usage to a running total
+ */
+export function addUsage(total: ChatUsage, step: StepUsage | undefined): ChatUsage {
+  const promptTokens = toCount(step?.promptTokens);
+  const completionTokens = toCount(step?.completionTokens);
+  return {
+    prompt_tokens: total.prompt_tokens + promptTokens,
+    completion_tokens: total.completion_tokens + completionTokens,
+    total_tokens: total.total_tokens + promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Sum usage across every step of a generate call, including tool round-trips
+ */
+export function sumStepUsage(result: { usage?: StepUsage; steps?: { usage?: StepUsage }[] }): ChatUsage {
+  if (result.steps && result.steps.length > 0) {
+    return result.steps.reduce((total, step) => addUsage(total, step.usage), emptyUsage());
+  }
+  return addUsage(emptyUsage(), result.usage);
+}
+
+/**
+ * Combine the usage of separate model calls made for one request
+ */
+export function mergeUsage(left: ChatUsage, right: ChatUsage): ChatUsage {
+  return {
+    prompt_tokens: left.prompt_tokens + right.prompt_tokens,
+    completion_tokens: left.completion_tokens + right.completion_tokens,
+    total_tokens: left.total_tokens + right.total_tokens,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * WebSocket chat transport: message protocol and the writer that sends agent output over a socket
+ */
+import type { ChatRequestBody } from "../ai/Chat";
+import { ChatStreamWriter, type ChatStreamOptions, type ChatStreamSink } from "./stream";
+import type { ChatUsage } from "./usage";
+
+// Connection state kept in the socket attachment, so it survives hibernation
+export interface SocketSession {
+  projectId: string;
+  ownerId: string | null;
+  billing: { orgId: string; cost: number };
+}
+
+// Message sent by the client
+export type ClientMessage =
+  | { type: "user_message"; id: string; body: ChatRequestBody }
+  | { type: "cancel"; id?: string };
+
+/**
+ * Parse a client message
+ * A user_message carries the fields of a chat completion request, or just `content` for a single user message
+ * Throws an Error with a user-facing message when the message is invalid
+ */
+export function parseClientMessage(data: string | ArrayBuffer): ClientMessage {
+  let message: any;
+  try {
+    message = JSON.parse(typeof data === "string" ? data : new TextDecoder().decode(data));
+  } catch {
+    throw new Error("Messages must be JSON");
+  }
+  if (message?.id !== undefined && typeof message.id !== "string") {
+    throw new Error("id must be a string");
+  }
+  if (message?.type === "cancel") {
+    return { type: "cancel", id: message.id };
+  }
+  if (message?.type !== "user_message") {
+    throw new Error("type must be user_message or cancel");
+  }
+  const { type, id, content, ...body } = message;
+  if (typeof content === "string") {
+    if (body.messages !== undefined) {
+      throw new Error("user_message takes either content or messages");
+    }
+    body.messages = [{ role: "user", content }];
+  }
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    throw new Error("user_message requires content or messages");
+  }
+  return { type, id: id || `run_${crypto.randomUUID().replace(/-/g, "")}`, body };
+}
+
+/**
+ * Send a protocol message, ignoring sockets that have already closed
+ */
+export function sendMessage(socket: WebSocket, message: Record<string, unknown>): void {
+  try {
+    socket.send(JSON.stringify(message));
+  } catch (error) {
+    console.warn("Failed to send WebSocket message:", error);
+  }
+}
+
+/**
+ * Writes agent output as WebSocket messages
+ * Deltas keep the OpenAI delta fields (content, reasoning_content, tool_calls); tool activity is always sent
+ * as tool_event messages and the run ends with a done message carrying the finish reason and usage
+ */
+export class WebSocketStreamWriter extends ChatStreamWriter {
+  finished = false;
+  private finishReason = "stop";
+  private totalUsage: ChatUsage | null = null;
+
+  constructor(
+    private socket: WebSocket,
+    sink: ChatStreamSink,
+    id: string,
+    model: string,
+    options: ChatStreamOptions = {}
+  ) {
+    super(sink, id, model, options);
+  }
+
+  chunk(delta: Record<string, any>): void {
+    if (Object.keys(delta).length === 0) {
+      return;
+    }
+    sendMessage(this.socket, { type: "delta", id: this.id, ...delta });
+  }
+
+  event(name: string, data: unknown): void {
+    sendMessage(this.socket, { type: "tool_event", id: this.id, event: name, data });
+  }
+
+  metadata(data: Record<string, unknown>): void {
+    sendMessage(this.socket, { type: "metadata", id: this.id, ...data });
+  }
+
+  finish(finishReason: string): void {
+    this.finishReason = finishReason;
+  }
+
+  usage(usage: ChatUsage): void {
+    this.totalUsage = usage;
+  }
+
+  error(error: { message: string; type: string; code: string }): void {
+    sendMessage(this.socket, { type: "error", id: this.id, error });
+  }
+
+  done(): void {
+    this.finished = true;
+    sendMessage(this.socket, {
+      type: "done",
+      id: this.id,
+      status: "completed",
+      model: this.model,
+      finish_reason: this.finishReason,
+      usage: this.totalUsage,
+    });
+  }
+}